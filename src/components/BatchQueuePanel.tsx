@@ -0,0 +1,79 @@
+import { AlertCircle, CheckCircle2, Clock, Eye, Layers, Loader2, RotateCcw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { QueueItem, QueueStatus } from "@/hooks/use-batch-queue";
+import { AnalysisResult } from "@/lib/analysis";
+
+interface BatchQueuePanelProps {
+  items: QueueItem[];
+  onShow: (image: string, result: AnalysisResult) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const statusIcons: Record<QueueStatus, JSX.Element> = {
+  queued: <Clock className="w-4 h-4 text-muted-foreground" />,
+  solving: <Loader2 className="w-4 h-4 text-primary animate-spin" />,
+  done: <CheckCircle2 className="w-4 h-4 text-primary" />,
+  failed: <AlertCircle className="w-4 h-4 text-destructive" />,
+};
+
+export const BatchQueuePanel = ({ items, onShow, onRetry, onRemove, onClearFinished }: BatchQueuePanelProps) => {
+  const finished = items.filter((item) => item.status === "done" || item.status === "failed").length;
+  const hasDone = items.some((item) => item.status === "done");
+
+  return (
+    <div className="glass rounded-xl overflow-hidden">
+      <div className="p-4 border-b border-border/50 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Layers className="w-5 h-5 text-primary" />
+            <h3 className="font-display">Batch queue</h3>
+            <span className="text-xs text-muted-foreground">
+              ({finished}/{items.length} finished)
+            </span>
+          </div>
+          {hasDone && (
+            <Button variant="ghost" size="sm" onClick={onClearFinished}>
+              Clear solved
+            </Button>
+          )}
+        </div>
+        <Progress value={items.length ? (finished / items.length) * 100 : 0} className="h-2" />
+      </div>
+
+      <div className="max-h-72 overflow-y-auto">
+        <div className="p-3 space-y-2">
+          {items.map((item) => (
+            <div key={item.id} className="flex items-center gap-3 p-2 rounded-lg bg-background/50">
+              <img src={item.image} alt={item.name} className="w-10 h-10 object-cover rounded-md shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-foreground truncate">{item.name}</p>
+                <p className={`text-xs truncate ${item.status === "failed" ? "text-destructive" : "text-muted-foreground"}`}>
+                  {item.error ?? (item.status === "done" ? "Solved" : item.status === "solving" ? "Solving..." : "Waiting")}
+                </p>
+              </div>
+              {statusIcons[item.status]}
+              {item.status === "done" && item.result && (
+                <Button variant="ghost" size="icon" className="shrink-0" title="Show answer" onClick={() => onShow(item.image, item.result!)}>
+                  <Eye className="w-4 h-4" />
+                </Button>
+              )}
+              {item.status === "failed" && (
+                <Button variant="ghost" size="icon" className="shrink-0" title="Retry" onClick={() => onRetry(item.id)}>
+                  <RotateCcw className="w-4 h-4" />
+                </Button>
+              )}
+              {item.status !== "solving" && (
+                <Button variant="ghost" size="icon" className="shrink-0" title="Remove" onClick={() => onRemove(item.id)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,215 @@
+import { useState, useCallback, useRef, useEffect } from "react";
+import { Camera, StopCircle, Video, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useToast } from "@/hooks/use-toast";
+import { prepareImage } from "@/lib/image-prep";
+import { detectPageCorners, Quad, warpPerspective } from "@/lib/perspective";
+import { cn } from "@/lib/utils";
+
+interface CameraCaptureProps {
+  onCapture: (imageData: string) => void;
+  isLoading: boolean;
+}
+
+const DETECTION_INTERVAL = 300;
+
+export const CameraCapture = ({ onCapture, isLoading }: CameraCaptureProps) => {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [straighten, setStraighten] = useState(true);
+  const [corners, setCorners] = useState<Quad | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const isMobile = useIsMobile();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (videoRef.current && stream) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream, isMobile]);
+
+  // Release the camera when the tab is switched away
+  useEffect(() => {
+    return () => stream?.getTracks().forEach((track) => track.stop());
+  }, [stream]);
+
+  // Look for the page a few times a second while the camera is live
+  useEffect(() => {
+    if (!stream || !straighten) {
+      setCorners(null);
+      return;
+    }
+    const interval = window.setInterval(() => {
+      if (videoRef.current) setCorners(detectPageCorners(videoRef.current));
+    }, DETECTION_INTERVAL);
+    return () => window.clearInterval(interval);
+  }, [stream, straighten]);
+
+  // Outline the detected page over the video. The video is object-contain, so
+  // map from video pixels through the letterboxed display rectangle.
+  useEffect(() => {
+    const canvas = overlayRef.current;
+    const video = videoRef.current;
+    if (!canvas || !video) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    canvas.width = video.offsetWidth;
+    canvas.height = video.offsetHeight;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!corners || !video.videoWidth) return;
+
+    const scale = Math.min(canvas.width / video.videoWidth, canvas.height / video.videoHeight);
+    const offsetX = (canvas.width - video.videoWidth * scale) / 2;
+    const offsetY = (canvas.height - video.videoHeight * scale) / 2;
+
+    ctx.beginPath();
+    corners.forEach((corner, i) => {
+      const x = offsetX + corner.x * scale;
+      const y = offsetY + corner.y * scale;
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    });
+    ctx.closePath();
+    ctx.fillStyle = "rgba(0, 212, 255, 0.15)";
+    ctx.fill();
+    ctx.strokeStyle = "#00d4ff";
+    ctx.lineWidth = 3;
+    ctx.stroke();
+  }, [corners]);
+
+  const startCamera = useCallback(async () => {
+    try {
+      const mediaStream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: { ideal: "environment" }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+        audio: false,
+      });
+      setStream(mediaStream);
+    } catch (error) {
+      console.error("Error starting camera:", error);
+      toast({
+        title: "Camera unavailable",
+        description: "Please allow camera access, or upload a photo instead",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  const stopCamera = useCallback(() => {
+    stream?.getTracks().forEach((track) => track.stop());
+    setStream(null);
+  }, [stream]);
+
+  const takePhoto = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    try {
+      if (video.videoWidth === 0 || video.videoHeight === 0) {
+        throw new Error("The camera isn't ready yet. Try again in a moment.");
+      }
+      const frame = document.createElement("canvas");
+      frame.width = video.videoWidth;
+      frame.height = video.videoHeight;
+      frame.getContext("2d")?.drawImage(video, 0, 0);
+
+      // Detect again on the exact frame we took rather than the last overlay tick
+      const page = straighten ? detectPageCorners(frame) : null;
+      const corrected = page ? warpPerspective(frame, page) : null;
+      if (straighten && !corrected) {
+        toast({
+          title: "No page edges found",
+          description: "Sending the photo as taken",
+        });
+      }
+
+      const imageData = await prepareImage(corrected ?? frame);
+      onCapture(imageData);
+      if (isMobile) stopCamera();
+    } catch (error) {
+      console.error("Error taking photo:", error);
+      toast({
+        title: "Couldn't take the photo",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [onCapture, straighten, isMobile, stopCamera, toast]);
+
+  const straightenToggle = (
+    <div className="flex items-center gap-2">
+      <Switch id="straighten-page" checked={straighten} onCheckedChange={setStraighten} />
+      <Label htmlFor="straighten-page" className="text-sm whitespace-nowrap">
+        Straighten page
+      </Label>
+    </div>
+  );
+
+  const viewfinder = (
+    <>
+      <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-contain" />
+      <canvas ref={overlayRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+    </>
+  );
+
+  // Phone-first: a full-screen viewfinder with a big thumb-reachable shutter
+  if (isMobile && stream) {
+    return (
+      <div className="fixed inset-0 z-50 bg-black flex flex-col">
+        <div className="relative flex-1">{viewfinder}</div>
+        <div className="p-6 pb-10 flex items-center justify-between text-white">
+          <div className="[&_label]:text-white">{straightenToggle}</div>
+          <button
+            type="button"
+            onClick={takePhoto}
+            disabled={isLoading}
+            aria-label="Take photo"
+            className="rounded-full border-4 border-white bg-white/20 active:bg-white/60 disabled:opacity-50"
+            style={{ width: 72, height: 72 }}
+          />
+          <Button onClick={stopCamera} variant="ghost" size="icon" className="text-white" aria-label="Close camera">
+            <X className="w-6 h-6" />
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass rounded-xl overflow-hidden">
+      <div className={cn("bg-background/50 relative", isMobile ? "aspect-[3/4]" : "aspect-video")}>
+        {stream ? (
+          viewfinder
+        ) : (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 text-muted-foreground">
+            <Camera className="w-16 h-16 opacity-30" />
+            <p className="text-sm">Point your camera at a problem on paper</p>
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 flex flex-wrap items-center gap-3">
+        {!stream ? (
+          <Button onClick={startCamera} disabled={isLoading} className="flex-1 gap-2">
+            <Video className="w-4 h-4" />
+            Start Camera
+          </Button>
+        ) : (
+          <>
+            {straightenToggle}
+            <Button onClick={takePhoto} disabled={isLoading} className="flex-1 gap-2 glow">
+              <Camera className="w-4 h-4" />
+              Take Photo
+            </Button>
+            <Button onClick={stopCamera} variant="destructive" size="icon">
+              <StopCircle className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { Check, ChevronDown, MessageSquarePlus, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ChatThread } from "@/lib/chat-threads";
+
+interface ChatThreadSwitcherProps {
+  threads: ChatThread[];
+  activeThread: ChatThread | null;
+  disabled?: boolean;
+  onSelect: (threadId: string) => void;
+  onNew: () => void;
+  onRename: (threadId: string, title: string) => void;
+  onDelete: (threadId: string) => void;
+}
+
+export const ChatThreadSwitcher = ({
+  threads,
+  activeThread,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}: ChatThreadSwitcherProps) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [title, setTitle] = useState("");
+
+  const openRename = () => {
+    setTitle(activeThread?.title ?? "");
+    setIsRenaming(true);
+  };
+
+  const submitRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (activeThread && title.trim()) {
+      onRename(activeThread.id, title.trim());
+    }
+    setIsRenaming(false);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="gap-1 max-w-[160px]" disabled={disabled}>
+            <span className="truncate text-xs">{activeThread?.title ?? "New conversation"}</span>
+            <ChevronDown className="w-3 h-3 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuItem onClick={onNew} className="gap-2">
+            <MessageSquarePlus className="w-4 h-4" />
+            New conversation
+          </DropdownMenuItem>
+          {activeThread && (
+            <>
+              <DropdownMenuItem onClick={openRename} className="gap-2">
+                <Pencil className="w-4 h-4" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setIsDeleting(true)} className="gap-2 text-destructive focus:text-destructive">
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+          {threads.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">Conversations</DropdownMenuLabel>
+              <div className="max-h-60 overflow-y-auto">
+                {threads.map((thread) => (
+                  <DropdownMenuItem key={thread.id} onClick={() => onSelect(thread.id)} className="gap-2">
+                    <Check className={`w-4 h-4 shrink-0 ${thread.id === activeThread?.id ? "opacity-100" : "opacity-0"}`} />
+                    <div className="min-w-0">
+                      <p className="truncate text-sm">{thread.title}</p>
+                      <p className="text-xs text-muted-foreground">{thread.updatedAt.toLocaleString()}</p>
+                    </div>
+                  </DropdownMenuItem>
+                ))}
+              </div>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isRenaming} onOpenChange={setIsRenaming}>
+        <DialogContent>
+          <form onSubmit={submitRename}>
+            <DialogHeader>
+              <DialogTitle>Rename conversation</DialogTitle>
+            </DialogHeader>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={80}
+              autoFocus
+              className="my-4"
+            />
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setIsRenaming(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!title.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleting} onOpenChange={setIsDeleting}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{activeThread?.title}" and all of its messages will be removed. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => activeThread && onDelete(activeThread.id)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
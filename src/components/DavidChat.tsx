@@ -1,30 +1,84 @@
-import { useState, useRef, useEffect } from "react";
-import { Send, Bot, User, Loader2, ImagePlus, X } from "lucide-react";
+import { useState, useRef, useEffect, forwardRef, useImperativeHandle } from "react";
+import { Send, Bot, User, Loader2, ImagePlus, X, Square } from "lucide-react";
+import { Components } from "react-markdown";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { supabase } from "@/integrations/supabase/client";
+import { MathMarkdown } from "@/components/MathMarkdown";
+import { ChatThreadSwitcher } from "@/components/ChatThreadSwitcher";
+import { useChatThreads } from "@/hooks/use-chat-threads";
+import { useQuota } from "@/hooks/use-quota";
+import { useToast } from "@/hooks/use-toast";
+import { ChatMessage } from "@/lib/chat-threads";
+import { DetectedProblem } from "@/lib/analysis";
+import { FunctionError } from "@/lib/functions";
+import { streamChat } from "@/lib/stream-chat";
 
-interface Message {
-  id: string;
-  role: "user" | "assistant";
+export interface DavidChatRef {
+  /** Opens a new conversation asking David to explain the solver's answer(s) for a capture or typed problem. */
+  askAbout: (image: string | undefined, problems: DetectedProblem[]) => void;
+  /** Sets the image attached to the next message. */
+  attachImage: (image: string) => void;
+  isInputFocused: () => boolean;
+}
+
+interface SolverContext {
+  problems: { question: string; latex: string; answer: string }[];
+}
+
+interface SendOptions {
   content: string;
   image?: string;
+  context?: SolverContext;
+  /** Start a fresh thread instead of continuing the active one. */
+  fresh?: boolean;
 }
 
-export const DavidChat = () => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: "welcome",
-      role: "assistant",
-      content: "Hey! I'm David, your math tutor. Send me pictures of math problems and I'll learn from them!",
-    },
-  ]);
+const WELCOME_MESSAGE: ChatMessage = {
+  id: "welcome",
+  role: "assistant",
+  content: "Hey! I'm David, your math tutor. Send me pictures of math problems and I'll learn from them!",
+};
+
+const chatMarkdownComponents: Components = {
+  p: ({ children }) => <p className="text-sm mb-2 last:mb-0 leading-relaxed">{children}</p>,
+  strong: ({ children }) => <strong className="text-primary font-semibold">{children}</strong>,
+  ul: ({ children }) => <ul className="list-disc list-inside text-sm space-y-1 mb-2">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal list-inside text-sm space-y-1 mb-2">{children}</ol>,
+  code: ({ children }) => <code className="bg-secondary px-1.5 py-0.5 rounded text-primary font-display text-xs">{children}</code>,
+};
+
+const explainRequest = (problems: DetectedProblem[]) =>
+  problems.length === 1
+    ? `The solver says the answer is ${problems[0].answer}. Can you explain why, step by step?`
+    : `The solver gave these answers:\n${problems
+        .map((problem, index) => `${index + 1}. ${problem.answer}`)
+        .join("\n")}\nCan you explain how to get each one, step by step?`;
+
+export const DavidChat = forwardRef<DavidChatRef>((_props, ref) => {
+  const {
+    threads,
+    activeThread,
+    messages,
+    setMessages,
+    isLoadingThread,
+    selectThread,
+    startNewThread,
+    ensureThread,
+    saveMessage,
+    renameThread,
+    deleteThread,
+  } = useChatThreads();
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [pendingImage, setPendingImage] = useState<string | null>(null);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const textInputRef = useRef<HTMLInputElement>(null);
+  const { refresh: refreshQuota } = useQuota();
+  const { toast } = useToast();
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -47,56 +101,140 @@ export const DavidChat = () => {
     }
   };
 
-  const sendMessage = async () => {
-    if ((!input.trim() && !pendingImage) || isLoading) return;
+  const reportSaveError = (error: unknown) => {
+    console.error("Error saving conversation:", error);
+    toast({
+      title: "Conversation not saved",
+      description: "Your messages are shown but couldn't be stored.",
+      variant: "destructive",
+    });
+  };
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
+  const send = async ({ content, image, context, fresh = false }: SendOptions) => {
+    const userMessage: ChatMessage = {
+      id: crypto.randomUUID(),
       role: "user",
-      content: input.trim() || "Check this problem",
-      image: pendingImage || undefined,
+      content,
+      image,
     };
+    const history = fresh ? [userMessage] : [...messages, userMessage];
 
-    setMessages((prev) => [...prev, userMessage]);
-    setInput("");
-    setPendingImage(null);
+    setMessages(history);
     setIsLoading(true);
 
+    // Save in the background so the reply can start streaming right away.
+    const persisted = ensureThread(userMessage, { fresh })
+      .then(async (threadId) => {
+        await saveMessage(threadId, userMessage);
+        return threadId;
+      })
+      .catch((error) => {
+        reportSaveError(error);
+        return null;
+      });
+
+    const assistantId = crypto.randomUUID();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setStreamingId(assistantId);
+    let received = false;
+    let assistantContent = "";
+
+    const appendToAssistant = (text: string) => {
+      received = true;
+      assistantContent += text;
+      setMessages((prev) =>
+        prev.some((m) => m.id === assistantId)
+          ? prev.map((m) => (m.id === assistantId ? { ...m, content: m.content + text } : m))
+          : [...prev, { id: assistantId, role: "assistant", content: text }],
+      );
+    };
+
     try {
-      const { data, error } = await supabase.functions.invoke("david-chat", {
+      await streamChat({
         body: {
-          messages: [...messages, userMessage].map((m) => ({
+          messages: history.map((m) => ({
             role: m.role,
             content: m.content,
-            image: m.image,
+            // Saved images go by path, as their signed URLs may have expired
+            ...(m.imagePath ? { imagePath: m.imagePath } : { image: m.image }),
           })),
+          context,
         },
+        signal: controller.signal,
+        onDelta: appendToAssistant,
       });
 
-      if (error) throw error;
-
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: "assistant",
-        content: data.response || "Sorry, I couldn't process that. Try again!",
-      };
-
-      setMessages((prev) => [...prev, assistantMessage]);
+      if (!received) {
+        appendToAssistant("Sorry, I couldn't process that. Try again!");
+      }
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Stopped by the user: keep whatever was streamed so far.
+        return;
+      }
       console.error("Error sending message:", error);
       setMessages((prev) => [
-        ...prev,
+        ...prev.filter((m) => m.id !== assistantId || m.content),
         {
-          id: (Date.now() + 1).toString(),
+          id: crypto.randomUUID(),
           role: "assistant",
-          content: "Oops! Something went wrong. Please try again.",
+          content: error instanceof FunctionError ? error.message : "Oops! Something went wrong. Please try again.",
         },
       ]);
     } finally {
+      abortControllerRef.current = null;
+      setStreamingId(null);
       setIsLoading(false);
+      refreshQuota();
+      if (assistantContent) {
+        persisted
+          .then((threadId) => threadId && saveMessage(threadId, { id: assistantId, role: "assistant", content: assistantContent }))
+          .catch(reportSaveError);
+      }
     }
   };
 
+  const runThreadAction = (action: () => Promise<void>, failureTitle: string) => {
+    action().catch((error) => {
+      console.error(`${failureTitle}:`, error);
+      toast({ title: failureTitle, description: "Please try again.", variant: "destructive" });
+    });
+  };
+
+  const sendMessage = () => {
+    if ((!input.trim() && !pendingImage) || isLoading) return;
+    send({ content: input.trim() || "Check this problem", image: pendingImage || undefined });
+    setInput("");
+    setPendingImage(null);
+  };
+
+  useImperativeHandle(ref, () => ({
+    askAbout: (image, problems) => {
+      if (isLoading) {
+        toast({ title: "David is still answering", description: "Wait for the current reply to finish." });
+        return;
+      }
+      send({
+        content: explainRequest(problems),
+        image,
+        context: { problems: problems.map(({ question, latex, answer }) => ({ question, latex, answer })) },
+        fresh: true,
+      });
+    },
+    attachImage: (image) => {
+      setPendingImage(image);
+      textInputRef.current?.focus();
+    },
+    isInputFocused: () => !!textInputRef.current && document.activeElement === textInputRef.current,
+  }));
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -115,12 +253,28 @@ export const DavidChat = () => {
             <h3 className="font-display font-semibold">David</h3>
             <p className="text-xs text-muted-foreground">Your Math Tutor</p>
           </div>
+          <div className="ml-auto">
+            <ChatThreadSwitcher
+              threads={threads}
+              activeThread={activeThread}
+              disabled={isLoading}
+              onSelect={selectThread}
+              onNew={startNewThread}
+              onRename={(threadId, title) => runThreadAction(() => renameThread(threadId, title), "Couldn't rename conversation")}
+              onDelete={(threadId) => runThreadAction(() => deleteThread(threadId), "Couldn't delete conversation")}
+            />
+          </div>
         </div>
       </div>
 
       <ScrollArea className="flex-1 p-4" ref={scrollRef}>
         <div className="space-y-4">
-          {messages.map((message) => (
+          {isLoadingThread && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            </div>
+          )}
+          {!isLoadingThread && (messages.length > 0 ? messages : [WELCOME_MESSAGE]).map((message) => (
             <div
               key={message.id}
               className={`flex gap-3 ${
@@ -154,11 +308,15 @@ export const DavidChat = () => {
                     className="max-w-full rounded-lg mb-2 max-h-32 object-contain"
                   />
                 )}
-                <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                {message.role === "assistant" ? (
+                  <MathMarkdown components={chatMarkdownComponents}>{message.content}</MathMarkdown>
+                ) : (
+                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                )}
               </div>
             </div>
           ))}
-          {isLoading && (
+          {isLoading && !messages.some((m) => m.id === streamingId) && (
             <div className="flex gap-3">
               <div className="p-2 rounded-lg bg-secondary/50">
                 <Bot className="w-4 h-4 text-primary" />
@@ -207,6 +365,7 @@ export const DavidChat = () => {
             <ImagePlus className="w-4 h-4" />
           </Button>
           <Input
+            ref={textInputRef}
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyPress}
@@ -214,16 +373,30 @@ export const DavidChat = () => {
             disabled={isLoading}
             className="flex-1 bg-background/50"
           />
-          <Button
-            onClick={sendMessage}
-            disabled={(!input.trim() && !pendingImage) || isLoading}
-            size="icon"
-            className="shrink-0"
-          >
-            <Send className="w-4 h-4" />
-          </Button>
+          {isLoading ? (
+            <Button
+              onClick={stopGeneration}
+              variant="destructive"
+              size="icon"
+              className="shrink-0"
+              title="Stop generating"
+            >
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button
+              onClick={sendMessage}
+              disabled={!input.trim() && !pendingImage}
+              size="icon"
+              className="shrink-0"
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          )}
         </div>
       </div>
     </div>
   );
-};
+});
+
+DavidChat.displayName = "DavidChat";
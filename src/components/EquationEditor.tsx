@@ -0,0 +1,225 @@
+import { useLayoutEffect, useRef, useState } from "react";
+import { ArrowLeft, ArrowRight, Delete, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { MathFormula } from "@/components/MathFormula";
+
+interface EquationEditorProps {
+  onSubmit: (latex: string) => void;
+  isLoading: boolean;
+}
+
+interface MathKey {
+  label: string;
+  /** LaTeX to insert; the caret lands on CARET, or after the insert if there is none. */
+  insert: string;
+  title?: string;
+}
+
+const CARET = "@";
+
+const KEY_GROUPS: { value: string; label: string; keys: MathKey[] }[] = [
+  {
+    value: "basic",
+    label: "Basic",
+    keys: [
+      { label: "x²", insert: "^{2}", title: "Square" },
+      { label: "xⁿ", insert: "^{@}", title: "Exponent" },
+      { label: "x₁", insert: "_{@}", title: "Subscript" },
+      { label: "a⁄b", insert: "\\frac{@}{}", title: "Fraction" },
+      { label: "√", insert: "\\sqrt{@}", title: "Square root" },
+      { label: "ⁿ√", insert: "\\sqrt[@]{}", title: "nth root" },
+      { label: "( )", insert: "\\left(@\\right)", title: "Parentheses" },
+      { label: "|x|", insert: "\\left|@\\right|", title: "Absolute value" },
+      { label: "±", insert: "\\pm " },
+      { label: "×", insert: "\\times " },
+      { label: "÷", insert: "\\div " },
+      { label: "·", insert: "\\cdot " },
+      { label: "≤", insert: "\\le " },
+      { label: "≥", insert: "\\ge " },
+      { label: "≠", insert: "\\neq " },
+      { label: "≈", insert: "\\approx " },
+      { label: "π", insert: "\\pi " },
+      { label: "∞", insert: "\\infty " },
+    ],
+  },
+  {
+    value: "greek",
+    label: "Greek",
+    keys: [
+      ["α", "alpha"], ["β", "beta"], ["γ", "gamma"], ["δ", "delta"], ["ε", "epsilon"], ["θ", "theta"],
+      ["λ", "lambda"], ["μ", "mu"], ["ρ", "rho"], ["σ", "sigma"], ["φ", "phi"], ["ω", "omega"],
+      ["Δ", "Delta"], ["Σ", "Sigma"], ["Φ", "Phi"], ["Ω", "Omega"],
+    ].map(([label, name]) => ({ label, insert: `\\${name} `, title: name })),
+  },
+  {
+    value: "calculus",
+    label: "Functions",
+    keys: [
+      { label: "sin", insert: "\\sin\\left(@\\right)" },
+      { label: "cos", insert: "\\cos\\left(@\\right)" },
+      { label: "tan", insert: "\\tan\\left(@\\right)" },
+      { label: "log", insert: "\\log\\left(@\\right)" },
+      { label: "ln", insert: "\\ln\\left(@\\right)" },
+      { label: "eˣ", insert: "e^{@}" },
+      { label: "lim", insert: "\\lim_{x \\to @} ", title: "Limit" },
+      { label: "Σ", insert: "\\sum_{i=1}^{@} ", title: "Sum" },
+      { label: "∫", insert: "\\int @ \\, dx", title: "Integral" },
+      { label: "∫ₐᵇ", insert: "\\int_{@}^{} \\, dx", title: "Definite integral" },
+      { label: "d⁄dx", insert: "\\frac{d}{dx}\\left(@\\right)", title: "Derivative" },
+      { label: "f′", insert: "f'(@)", title: "Prime" },
+    ],
+  },
+  {
+    value: "matrix",
+    label: "Matrices",
+    keys: [
+      { label: "2×2", insert: "\\begin{pmatrix} @ &  \\\\  &  \\end{pmatrix}", title: "2×2 matrix" },
+      { label: "3×3", insert: "\\begin{pmatrix} @ &  &  \\\\  &  &  \\\\  &  &  \\end{pmatrix}", title: "3×3 matrix" },
+      { label: "det", insert: "\\begin{vmatrix} @ &  \\\\  &  \\end{vmatrix}", title: "Determinant" },
+      { label: "vec", insert: "\\begin{pmatrix} @ \\\\  \\end{pmatrix}", title: "Column vector" },
+      { label: "{ system", insert: "\\begin{cases} @ \\\\  \\end{cases}", title: "System of equations" },
+      { label: "new row", insert: " \\\\ ", title: "Next row" },
+      { label: "&", insert: " & ", title: "Next column" },
+    ],
+  },
+];
+
+export const EquationEditor = ({ onSubmit, isLoading }: EquationEditorProps) => {
+  const [latex, setLatex] = useState("");
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingCaretRef = useRef<number | null>(null);
+
+  // Put the caret where the last key asked for once the new text is rendered
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    const caret = pendingCaretRef.current;
+    if (!textarea || caret === null) return;
+    pendingCaretRef.current = null;
+    textarea.focus();
+    textarea.setSelectionRange(caret, caret);
+  }, [latex]);
+
+  const edit = (start: number, end: number, replacement: string, caret: number) => {
+    pendingCaretRef.current = caret;
+    setLatex((current) => current.slice(0, start) + replacement + current.slice(end));
+  };
+
+  const selection = () => {
+    const textarea = textareaRef.current;
+    return [textarea?.selectionStart ?? latex.length, textarea?.selectionEnd ?? latex.length];
+  };
+
+  // Selected text goes into the key's slot, so select "x+1" and press √ for \sqrt{x+1}
+  const insert = ({ insert: template }: MathKey) => {
+    const [start, end] = selection();
+    const selected = latex.slice(start, end);
+    const slot = template.indexOf(CARET);
+    if (slot < 0) {
+      edit(start, end, template, start + template.length);
+      return;
+    }
+    const text = template.replace(CARET, selected);
+    edit(start, end, text, start + slot + selected.length);
+  };
+
+  const backspace = () => {
+    const [start, end] = selection();
+    if (start !== end) edit(start, end, "", start);
+    else if (start > 0) edit(start - 1, start, "", start - 1);
+  };
+
+  const moveCaret = (offset: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const caret = Math.min(latex.length, Math.max(0, textarea.selectionStart + offset));
+    textarea.focus();
+    textarea.setSelectionRange(caret, caret);
+  };
+
+  const submit = () => {
+    if (latex.trim() && !isLoading) onSubmit(latex.trim());
+  };
+
+  // Keys shouldn't steal focus, or the textarea would lose its caret
+  const keepFocus = (e: React.MouseEvent) => e.preventDefault();
+
+  return (
+    <div className="glass rounded-xl overflow-hidden">
+      <div className="p-4 space-y-3">
+        <Textarea
+          ref={textareaRef}
+          value={latex}
+          onChange={(e) => setLatex(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              submit();
+            }
+          }}
+          placeholder="Type a problem in LaTeX, e.g. x^2 - 5x + 6 = 0, or use the keys below"
+          className="font-mono text-sm min-h-20"
+          spellCheck={false}
+          aria-label="Problem in LaTeX"
+        />
+        <div className="min-h-14 flex items-center justify-center">
+          {latex.trim() ? (
+            <MathFormula latex={latex} displayMode className="w-full my-0" />
+          ) : (
+            <p className="text-xs text-muted-foreground">The preview appears here as you type</p>
+          )}
+        </div>
+      </div>
+
+      <Tabs defaultValue="basic" className="px-4">
+        <TabsList className="w-full justify-start overflow-x-auto">
+          {KEY_GROUPS.map((group) => (
+            <TabsTrigger key={group.value} value={group.value} className="text-xs">
+              {group.label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+        {KEY_GROUPS.map((group) => (
+          <TabsContent key={group.value} value={group.value}>
+            <div className="grid grid-cols-6 sm:grid-cols-9 gap-1.5">
+              {group.keys.map((key) => (
+                <Button
+                  key={key.label}
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  className="h-9 px-1 font-display text-sm"
+                  title={key.title ?? key.insert.trim()}
+                  onMouseDown={keepFocus}
+                  onClick={() => insert(key)}
+                >
+                  {key.label}
+                </Button>
+              ))}
+            </div>
+          </TabsContent>
+        ))}
+      </Tabs>
+
+      <div className="p-4 flex items-center gap-1.5">
+        <Button type="button" variant="outline" size="icon" title="Move left" onMouseDown={keepFocus} onClick={() => moveCaret(-1)}>
+          <ArrowLeft className="w-4 h-4" />
+        </Button>
+        <Button type="button" variant="outline" size="icon" title="Move right" onMouseDown={keepFocus} onClick={() => moveCaret(1)}>
+          <ArrowRight className="w-4 h-4" />
+        </Button>
+        <Button type="button" variant="outline" size="icon" title="Delete" onMouseDown={keepFocus} onClick={backspace}>
+          <Delete className="w-4 h-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={() => setLatex("")} disabled={!latex}>
+          Clear
+        </Button>
+        <Button onClick={submit} disabled={!latex.trim() || isLoading} className="ml-auto gap-2 glow">
+          <Send className="w-4 h-4" />
+          Solve
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,353 @@
+import { useCallback, useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
+import { LineChart as LineChartIcon, Maximize, Plus, X, ZoomIn, ZoomOut } from "lucide-react";
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceArea, ReferenceDot, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DetectedProblem } from "@/lib/analysis";
+import {
+  DEFAULT_VIEWPORT,
+  findIntervals,
+  findKeyPoints,
+  formatCoordinate,
+  initialViewport,
+  KeyPointKind,
+  latexToRows,
+  panViewport,
+  parseRow,
+  PlotRow,
+  sampleCurve,
+  sampleXs,
+  Viewport,
+  zoomViewport,
+} from "@/lib/graph";
+import { loadMath, MathJs } from "@/lib/mathjs";
+
+interface GraphPanelProps {
+  problems: DetectedProblem[];
+}
+
+const MAX_ROWS = 5;
+const ZOOM_STEP = 1.5;
+
+const CURVE_COLORS = ["hsl(var(--primary))", "#f472b6", "#facc15", "#34d399", "#a78bfa"];
+
+const keyPointStyles: Record<KeyPointKind, { label: string; color: string }> = {
+  intersection: { label: "Intersection", color: "#f97316" },
+  root: { label: "Root", color: "#ffffff" },
+  maximum: { label: "Max", color: "#34d399" },
+  minimum: { label: "Min", color: "#f472b6" },
+};
+
+type ParsedRow = { row: PlotRow; error: null } | { row: null; error: string | null };
+
+export const GraphPanel = ({ problems }: GraphPanelProps) => {
+  const [math, setMath] = useState<MathJs | null>(null);
+  const [sourceIndex, setSourceIndex] = useState(0);
+  const [rows, setRows] = useState<string[]>([]);
+  const [view, setView] = useState<Viewport>(DEFAULT_VIEWPORT);
+  const chartRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; view: Viewport } | null>(null);
+
+  useEffect(() => {
+    loadMath()
+      .then(setMath)
+      .catch((error) => console.error("Error loading mathjs:", error));
+  }, []);
+
+  // Problems whose LaTeX turns into something plottable, with their starting rows
+  const sources = useMemo(() => {
+    if (!math) return [];
+    return problems.flatMap((problem, index) => {
+      try {
+        const initial = latexToRows(math, problem.latex);
+        initial.forEach((text, row) => parseRow(math, text, row));
+        return initial.length > 0 ? [{ index, rows: initial }] : [];
+      } catch {
+        return [];
+      }
+    });
+  }, [math, problems]);
+
+  useEffect(() => {
+    setSourceIndex(0);
+  }, [problems]);
+
+  const fitTo = useCallback((texts: string[]) => {
+    if (!math) return;
+    const curves = texts.flatMap((text, row) => {
+      try {
+        return parseRow(math, text, row).curves;
+      } catch {
+        return [];
+      }
+    });
+    setView(initialViewport(curves));
+  }, [math]);
+
+  useEffect(() => {
+    const source = sources[sourceIndex];
+    if (!source) return;
+    setRows(source.rows);
+    fitTo(source.rows);
+  }, [sources, sourceIndex, fitTo]);
+
+  // Parse while typing without blocking the input
+  const deferredRows = useDeferredValue(rows);
+  const parsed = useMemo(
+    () =>
+      deferredRows.map((text, index): ParsedRow => {
+        if (!math || !text.trim()) return { row: null, error: null };
+        try {
+          return { row: parseRow(math, text, index), error: null };
+        } catch (error) {
+          return { row: null, error: error instanceof Error ? error.message : "Can't read this expression" };
+        }
+      }),
+    [math, deferredRows],
+  );
+
+  const plotRows = useMemo(() => parsed.flatMap(({ row }) => (row ? [row] : [])), [parsed]);
+  const curves = useMemo(() => plotRows.flatMap((row) => row.curves), [plotRows]);
+
+  const data = useMemo(() => {
+    const xs = sampleXs(view);
+    const sampled = curves.map((curve) => sampleCurve(curve, xs, view));
+    return xs.map((x, i) => {
+      const point: Record<string, number | [number, number] | null> = { x };
+      curves.forEach((curve, index) => {
+        const y = sampled[index][i];
+        point[`c${index}`] = y;
+        if (curve.shade) {
+          point[`s${index}`] = y === null ? null : curve.shade === "above" ? [y, view.yMax] : [view.yMin, y];
+        }
+      });
+      return point;
+    });
+  }, [curves, view]);
+
+  const keyPoints = useMemo(() => findKeyPoints(curves, view), [curves, view]);
+  const intervals = useMemo(() => findIntervals(plotRows, view), [plotRows, view]);
+
+  const chartConfig = useMemo<ChartConfig>(
+    () =>
+      Object.fromEntries(
+        curves.map((curve, index) => [`c${index}`, { label: curve.label, color: CURVE_COLORS[index % CURVE_COLORS.length] }]),
+      ),
+    [curves],
+  );
+
+  // A row's swatch matches its first curve; rows that don't parse stay grey
+  const rowColor = (row: number) => {
+    const index = curves.findIndex((curve) => curve.row === row);
+    return index < 0 ? undefined : CURVE_COLORS[index % CURVE_COLORS.length];
+  };
+
+  const hasGraph = sources.length > 0;
+
+  // Wheel zooms around the cursor. React's onWheel is passive, so it can't stop the page scrolling.
+  useEffect(() => {
+    const element = chartRef.current;
+    if (!element) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = element.getBoundingClientRect();
+      const factor = e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+      setView((current) =>
+        zoomViewport(current, factor, (e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height),
+      );
+    };
+    element.addEventListener("wheel", handleWheel, { passive: false });
+    return () => element.removeEventListener("wheel", handleWheel);
+  }, [hasGraph]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, view };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setView(panViewport(drag.view, (e.clientX - drag.x) / rect.width, (e.clientY - drag.y) / rect.height));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const updateRow = (index: number, text: string) => {
+    setRows((current) => current.map((row, i) => (i === index ? text : row)));
+  };
+
+  if (!hasGraph) return null;
+
+  return (
+    <div className="glass rounded-xl overflow-hidden animate-slide-up">
+      <div className="p-4 border-b border-border/50 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <LineChartIcon className="w-5 h-5 text-primary" />
+          </div>
+          <h3 className="font-display text-lg">Graph</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          {sources.length > 1 && (
+            <Select value={String(sourceIndex)} onValueChange={(value) => setSourceIndex(Number(value))}>
+              <SelectTrigger className="h-8 w-32 mr-2 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sources.map((source, index) => (
+                  <SelectItem key={source.index} value={String(index)}>
+                    Problem {source.index + 1}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="ghost" size="icon" title="Zoom in" onClick={() => setView((v) => zoomViewport(v, 1 / ZOOM_STEP))}>
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" title="Zoom out" onClick={() => setView((v) => zoomViewport(v, ZOOM_STEP))}>
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" title="Fit to graph" onClick={() => fitTo(rows)}>
+            <Maximize className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={chartRef}
+        className="p-4 cursor-grab active:cursor-grabbing select-none"
+        style={{ touchAction: "none" }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <ChartContainer config={chartConfig} className="w-full aspect-[4/3] sm:aspect-video">
+          <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={[view.xMin, view.xMax]}
+              allowDataOverflow
+              tickFormatter={formatCoordinate}
+            />
+            <YAxis
+              type="number"
+              domain={[view.yMin, view.yMax]}
+              allowDataOverflow
+              tickFormatter={formatCoordinate}
+              width={44}
+            />
+            <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" strokeOpacity={0.6} />
+            <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeOpacity={0.6} />
+            {intervals.map(([x1, x2]) => (
+              <ReferenceArea key={`${x1}-${x2}`} x1={x1} x2={x2} fill="hsl(var(--primary))" fillOpacity={0.12} />
+            ))}
+            {curves.map((curve, index) =>
+              curve.shade ? (
+                <Area
+                  key={`s${index}`}
+                  dataKey={`s${index}`}
+                  stroke="none"
+                  fill={`var(--color-c${index})`}
+                  fillOpacity={0.15}
+                  tooltipType="none"
+                  isAnimationActive={false}
+                />
+              ) : null,
+            )}
+            {curves.map((curve, index) => (
+              <Line
+                key={`c${index}`}
+                dataKey={`c${index}`}
+                stroke={`var(--color-c${index})`}
+                strokeWidth={2}
+                strokeDasharray={curve.shade ? "6 4" : undefined}
+                dot={false}
+                connectNulls={false}
+                isAnimationActive={false}
+              />
+            ))}
+            {keyPoints.map((point) => (
+              <ReferenceDot
+                key={`${point.kind}-${point.x}`}
+                x={point.x}
+                y={point.y}
+                r={4}
+                fill={keyPointStyles[point.kind].color}
+                stroke="hsl(var(--background))"
+              />
+            ))}
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => `x = ${formatCoordinate(Number(payload[0]?.payload?.x))}`}
+                />
+              }
+            />
+          </ComposedChart>
+        </ChartContainer>
+      </div>
+
+      {keyPoints.length > 0 && (
+        <div className="px-4 pb-3 flex flex-wrap gap-2">
+          {keyPoints.map((point) => (
+            <span
+              key={`${point.kind}-${point.x}`}
+              className="inline-flex items-center gap-1.5 px-2 py-1 rounded-md bg-background/50 text-xs text-muted-foreground"
+            >
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: keyPointStyles[point.kind].color }} />
+              {keyPointStyles[point.kind].label} ({formatCoordinate(point.x)}, {formatCoordinate(point.y)})
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="p-4 border-t border-border/50 space-y-2">
+        {rows.map((text, index) => (
+          <div key={index}>
+            <div className="flex items-center gap-2">
+              <span
+                className="w-3 h-3 rounded-full shrink-0 bg-muted"
+                style={{ backgroundColor: rowColor(index) }}
+              />
+              <Input
+                value={text}
+                onChange={(e) => updateRow(index, e.target.value)}
+                placeholder="e.g. y = x^2 - 4 or x + y > 2"
+                className="h-8 font-mono text-sm"
+                aria-label={`Expression ${index + 1}`}
+              />
+              {rows.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  title="Remove"
+                  onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+            {parsed[index]?.error && <p className="text-xs text-destructive mt-1 ml-5">{parsed[index].error}</p>}
+          </div>
+        ))}
+        {rows.length < MAX_ROWS && (
+          <Button variant="ghost" size="sm" className="gap-2 text-xs" onClick={() => setRows((current) => [...current, ""])}>
+            <Plus className="w-3.5 h-3.5" />
+            Add expression
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,40 @@
-import { Clock, Trash2 } from "lucide-react";
+import { Clock, FileText, Keyboard, Loader2, MessageCircleQuestion, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-
-interface HistoryItem {
-  id: string;
-  image: string;
-  solution: string;
-  timestamp: Date;
-}
+import { HistoryItem, summarizeAnswers } from "@/lib/analysis";
 
 interface HistoryPanelProps {
   history: HistoryItem[];
+  total: number;
+  isLoading: boolean;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
   onSelect: (item: HistoryItem) => void;
   onClear: () => void;
+  onAskDavid?: (item: HistoryItem) => void;
 }
 
-export const HistoryPanel = ({ history, onSelect, onClear }: HistoryPanelProps) => {
+export const HistoryPanel = ({
+  history,
+  total,
+  isLoading,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  onSelect,
+  onClear,
+  onAskDavid,
+}: HistoryPanelProps) => {
+  if (isLoading) {
+    return (
+      <div className="glass rounded-xl p-6 text-center">
+        <Loader2 className="w-8 h-8 text-primary mx-auto mb-3 animate-spin" />
+        <p className="text-muted-foreground">Loading history...</p>
+      </div>
+    );
+  }
+
   if (history.length === 0) {
     return (
       <div className="glass rounded-xl p-6 text-center">
@@ -34,7 +53,7 @@ export const HistoryPanel = ({ history, onSelect, onClear }: HistoryPanelProps)
         <div className="flex items-center gap-2">
           <Clock className="w-5 h-5 text-primary" />
           <h3 className="font-display">History</h3>
-          <span className="text-xs text-muted-foreground">({history.length})</span>
+          <span className="text-xs text-muted-foreground">({total})</span>
         </div>
         <Button variant="ghost" size="sm" onClick={onClear}>
           <Trash2 className="w-4 h-4" />
@@ -43,27 +62,78 @@ export const HistoryPanel = ({ history, onSelect, onClear }: HistoryPanelProps)
       
       <ScrollArea className="h-64">
         <div className="p-3 space-y-2">
-          {history.map((item) => (
-            <button
-              key={item.id}
-              onClick={() => onSelect(item)}
-              className="w-full flex items-center gap-3 p-3 rounded-lg bg-background/50 hover:bg-secondary/50 transition-colors text-left"
-            >
-              <img
-                src={item.image}
-                alt="Problem thumbnail"
-                className="w-12 h-12 object-cover rounded-md"
-              />
-              <div className="flex-1 min-w-0">
-                <p className="text-sm text-foreground truncate">
-                  {item.solution.slice(0, 50)}...
-                </p>
-                <p className="text-xs text-muted-foreground mt-1">
-                  {item.timestamp.toLocaleTimeString()}
-                </p>
+          {history.map((item, index) => (
+            <div key={item.id}>
+              {/* Consecutive pages of the same worksheet share one header */}
+              {item.worksheet && item.worksheet.id !== history[index - 1]?.worksheet?.id && (
+                <div className="flex items-center gap-2 px-1 pt-1 pb-2 text-xs text-muted-foreground">
+                  <FileText className="w-3.5 h-3.5 text-primary" />
+                  <span className="truncate">{item.worksheet.title}</span>
+                  <span className="shrink-0">· {item.worksheet.pageCount} pages</span>
+                </div>
+              )}
+              <div
+                className={`flex items-center gap-1 rounded-lg bg-background/50 hover:bg-secondary/50 transition-colors ${
+                  item.worksheet ? "ml-3 border-l-2 border-primary/30" : ""
+                }`}
+              >
+                <button
+                  onClick={() => onSelect(item)}
+                  className="flex-1 min-w-0 flex items-center gap-3 p-3 text-left"
+                >
+                  {item.image ? (
+                    <img
+                      src={item.image}
+                      alt="Problem thumbnail"
+                      className="w-12 h-12 object-cover rounded-md"
+                    />
+                  ) : (
+                    <div
+                      className="w-12 h-12 shrink-0 flex items-center justify-center rounded-md bg-secondary"
+                      title={item.text}
+                    >
+                      <Keyboard className="w-5 h-5 text-muted-foreground" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-foreground truncate">
+                      {summarizeAnswers(item.result).slice(0, 50)}...
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {item.worksheet && `Page ${item.worksheet.page} · `}
+                      {item.timestamp.toLocaleTimeString()}
+                      {item.transcription !== undefined && (item.text ?? "") !== item.transcription && (
+                        <span title={`Read as: ${item.transcription || "(nothing)"}`}> · Corrected</span>
+                      )}
+                    </p>
+                  </div>
+                </button>
+                {onAskDavid && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="shrink-0 mr-1"
+                    title="Ask David why"
+                    onClick={() => onAskDavid(item)}
+                  >
+                    <MessageCircleQuestion className="w-4 h-4" />
+                  </Button>
+                )}
               </div>
-            </button>
+            </div>
           ))}
+          {hasMore && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full gap-2"
+              onClick={onLoadMore}
+              disabled={isLoadingMore}
+            >
+              {isLoadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+              Load more
+            </Button>
+          )}
         </div>
       </ScrollArea>
     </div>
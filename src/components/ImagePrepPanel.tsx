@@ -0,0 +1,116 @@
+import { Bug } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useImagePrep } from "@/hooks/use-image-prep";
+import { ImageFormat } from "@/lib/image-prep";
+
+const MAX_DIMENSIONS = [1024, 1600, 2048, 3072];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+/** Developer panel for tuning how captures are compressed before upload. */
+export const ImagePrepPanel = () => {
+  const { settings, lastStats, updateSettings } = useImagePrep();
+
+  return (
+    <div className="glass rounded-xl p-4 space-y-4 text-sm">
+      <div className="flex items-center gap-2">
+        <Bug className="w-4 h-4 text-primary" />
+        <h3 className="font-display">Image preparation</h3>
+      </div>
+
+      {lastStats ? (
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          <div className="rounded-md bg-muted/50 p-2">
+            <p className="text-muted-foreground">Before</p>
+            <p className="font-mono">
+              {lastStats.originalBytes ? formatBytes(lastStats.originalBytes) : "—"} · {lastStats.originalWidth}×{lastStats.originalHeight}
+            </p>
+          </div>
+          <div className="rounded-md bg-muted/50 p-2">
+            <p className="text-muted-foreground">After ({lastStats.format})</p>
+            <p className="font-mono">
+              {formatBytes(lastStats.preparedBytes)} · {lastStats.width}×{lastStats.height}
+            </p>
+          </div>
+          {lastStats.originalBytes > 0 && (
+            <p className="col-span-2 text-muted-foreground">
+              {Math.round((1 - lastStats.preparedBytes / lastStats.originalBytes) * 100)}% smaller
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Capture an image to see its payload size.</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs">Max dimension</Label>
+          <Select
+            value={String(settings.maxDimension)}
+            onValueChange={(value) => updateSettings({ maxDimension: Number(value) })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MAX_DIMENSIONS.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size}px
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Format</Label>
+          <Select value={settings.format} onValueChange={(value) => updateSettings({ format: value as ImageFormat })}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="image/webp">WebP</SelectItem>
+              <SelectItem value="image/jpeg">JPEG</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">Quality: {Math.round(settings.quality * 100)}</Label>
+        <Slider
+          value={[settings.quality * 100]}
+          onValueChange={([value]) => updateSettings({ quality: value / 100 })}
+          min={30}
+          max={100}
+          step={5}
+        />
+      </div>
+
+      <div className="flex items-center gap-6">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="prep-grayscale"
+            checked={settings.grayscale}
+            onCheckedChange={(grayscale) => updateSettings({ grayscale })}
+          />
+          <Label htmlFor="prep-grayscale" className="text-xs">Grayscale</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="prep-contrast"
+            checked={settings.boostContrast}
+            onCheckedChange={(boostContrast) => updateSettings({ boostContrast })}
+          />
+          <Label htmlFor="prep-contrast" className="text-xs">Boost contrast</Label>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,27 @@
 import { useCallback, useState } from "react";
 import { Upload, Image as ImageIcon, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { prepareImage } from "@/lib/image-prep";
+import { isPdfFile } from "@/lib/pdf";
 
 interface ImageUploadProps {
   onImageSelect: (imageData: string) => void;
+  /** When set, PDFs are accepted and handed over instead of read as an image. */
+  onPdfSelect?: (file: File) => void;
+  /** When set, dropping or picking several images hands them all over at once. */
+  onImagesSelect?: (files: File[]) => void;
   isLoading: boolean;
 }
 
-export const ImageUpload = ({ onImageSelect, isLoading }: ImageUploadProps) => {
+export const ImageUpload = ({ onImageSelect, onPdfSelect, onImagesSelect, isLoading }: ImageUploadProps) => {
   const [preview, setPreview] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
 
   const handleFile = useCallback((file: File) => {
+    if (onPdfSelect && isPdfFile(file)) {
+      onPdfSelect(file);
+      return;
+    }
     if (!file.type.startsWith('image/')) {
       return;
     }
@@ -20,18 +30,30 @@ export const ImageUpload = ({ onImageSelect, isLoading }: ImageUploadProps) => {
     reader.onload = (e) => {
       const result = e.target?.result as string;
       setPreview(result);
-      onImageSelect(result);
+      prepareImage(result)
+        .then(onImageSelect)
+        .catch((error) => {
+          console.error("Error preparing image:", error);
+          onImageSelect(result);
+        });
     };
     reader.readAsDataURL(file);
-  }, [onImageSelect]);
+  }, [onImageSelect, onPdfSelect]);
+
+  const handleFiles = useCallback((files: File[]) => {
+    const images = files.filter((file) => file.type.startsWith('image/'));
+    if (onImagesSelect && images.length > 1) {
+      onImagesSelect(images);
+      return;
+    }
+    if (files[0]) handleFile(files[0]);
+  }, [handleFile, onImagesSelect]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    
-    const file = e.dataTransfer.files[0];
-    if (file) handleFile(file);
-  }, [handleFile]);
+    handleFiles(Array.from(e.dataTransfer.files));
+  }, [handleFiles]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -43,9 +65,9 @@ export const ImageUpload = ({ onImageSelect, isLoading }: ImageUploadProps) => {
   }, []);
 
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) handleFile(file);
-  }, [handleFile]);
+    handleFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  }, [handleFiles]);
 
   const clearPreview = useCallback(() => {
     setPreview(null);
@@ -89,17 +111,18 @@ export const ImageUpload = ({ onImageSelect, isLoading }: ImageUploadProps) => {
                 Drop your math problem here
               </p>
               <p className="text-sm text-muted-foreground mt-1">
-                or click to upload an image
+                {onImagesSelect ? "or click to upload one or more images" : "or click to upload an image"}
               </p>
             </div>
             <div className="flex items-center gap-2 text-xs text-muted-foreground">
               <ImageIcon className="w-4 h-4" />
-              <span>PNG, JPG, WEBP supported</span>
+              <span>PNG, JPG, WEBP{onPdfSelect && ", PDF"} supported</span>
             </div>
           </div>
           <input
             type="file"
-            accept="image/*"
+            accept={onPdfSelect ? "image/*,application/pdf" : "image/*"}
+            multiple={!!onImagesSelect}
             onChange={handleInputChange}
             className="hidden"
             disabled={isLoading}
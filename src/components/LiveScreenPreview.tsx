@@ -1,34 +1,103 @@
 import { useState, useCallback, useRef, useEffect, forwardRef, useImperativeHandle } from "react";
-import { Monitor, StopCircle, Play, Pencil, Eraser } from "lucide-react";
+import { Monitor, StopCircle, Play, Pencil, Eraser, Crop, X, Highlighter, Square, MoveUpRight, Undo2, Redo2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useAutoCapture } from "@/hooks/use-auto-capture";
 import { useToast } from "@/hooks/use-toast";
+import { isEditableTarget } from "@/lib/clipboard";
+import { prepareImage } from "@/lib/image-prep";
+import { Annotation } from "@/lib/analysis";
+import {
+  Bounds,
+  drawLabel,
+  DrawingPath,
+  DrawingTool,
+  drawPath,
+  isShapeTool,
+  pathBounds,
+  PEN_COLORS,
+  Point,
+  TOOL_WIDTHS,
+} from "@/lib/drawing";
+
+// Space on a focused button, tab or card should press it, not capture the screen
+const isInteractiveTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  !!target.closest("button, a[href], select, summary, [role='button'], [role='tab'], [role='checkbox'], [role='switch']");
 
 interface LiveScreenPreviewProps {
-  onCapture: (imageData: string) => void;
+  /** `annotations` describes the marks drawn on the capture, relative to the captured image. */
+  onCapture: (imageData: string, annotations?: Annotation[]) => void;
   isLoading: boolean;
   onClearSolution?: () => void;
+  /** Holds off auto-capture, e.g. while the student reviews a transcription. */
+  paused?: boolean;
+  /** Whether the live tab is showing; keyboard shortcuts only apply then. */
+  isActive?: boolean;
 }
 
 export interface LiveScreenPreviewRef {
   captureScreen: () => Promise<void>;
 }
 
-interface Point {
+/** Capture region in the video's own pixel space, so it survives layout resizes. */
+interface CropRegion {
   x: number;
   y: number;
+  width: number;
+  height: number;
 }
 
-interface DrawingPath {
-  points: Point[];
-}
+const CROP_STORAGE_KEY = "mathmate:crop-region";
+const MIN_CROP_SIZE = 16;
+
+const loadCropRegion = (): CropRegion | null => {
+  try {
+    const saved = sessionStorage.getItem(CROP_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
 
-export const LiveScreenPreview = forwardRef<LiveScreenPreviewRef, LiveScreenPreviewProps>(({ onCapture, isLoading, onClearSolution }, ref) => {
+// Intersects a mark with the captured area and expresses it as fractions of that area.
+const toCaptureRegion = (box: Bounds, area: Bounds): Annotation["region"] | null => {
+  const left = Math.max(box.x, area.x);
+  const top = Math.max(box.y, area.y);
+  const right = Math.min(box.x + box.width, area.x + area.width);
+  const bottom = Math.min(box.y + box.height, area.y + area.height);
+  if (right <= left || bottom <= top) return null;
+  return {
+    x: (left - area.x) / area.width,
+    y: (top - area.y) / area.height,
+    width: (right - left) / area.width,
+    height: (bottom - top) / area.height,
+  };
+};
+
+// Ratio between the video's intrinsic resolution and its on-screen size.
+const getVideoScale = (video: HTMLVideoElement) => ({
+  scaleX: video.videoWidth / video.offsetWidth,
+  scaleY: video.videoHeight / video.offsetHeight,
+});
+
+export const LiveScreenPreview = forwardRef<LiveScreenPreviewRef, LiveScreenPreviewProps>(({ onCapture, isLoading, onClearSolution, paused = false, isActive = true }, ref) => {
   const [isSharing, setIsSharing] = useState(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
   const [paths, setPaths] = useState<DrawingPath[]>([]);
-  const [currentPath, setCurrentPath] = useState<Point[]>([]);
+  const [redoStack, setRedoStack] = useState<DrawingPath[]>([]);
+  const [currentStroke, setCurrentStroke] = useState<DrawingPath | null>(null);
   const [drawMode, setDrawMode] = useState(false);
+  const [tool, setTool] = useState<DrawingTool>("pen");
+  const [color, setColor] = useState(PEN_COLORS[0]);
+  const [cropMode, setCropMode] = useState(false);
+  const [cropRegion, setCropRegion] = useState<CropRegion | null>(loadCropRegion);
+  const [cropDraft, setCropDraft] = useState<{ start: Point; end: Point } | null>(null);
+  const [autoCapture, setAutoCapture] = useState(false);
+  const [sensitivity, setSensitivity] = useState(50);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -40,6 +109,14 @@ export const LiveScreenPreview = forwardRef<LiveScreenPreviewRef, LiveScreenPrev
     }
   }, [stream]);
 
+  useEffect(() => {
+    if (cropRegion) {
+      sessionStorage.setItem(CROP_STORAGE_KEY, JSON.stringify(cropRegion));
+    } else {
+      sessionStorage.removeItem(CROP_STORAGE_KEY);
+    }
+  }, [cropRegion]);
+
   useEffect(() => {
     const drawOverlay = () => {
       const canvas = canvasRef.current;
@@ -53,29 +130,48 @@ export const LiveScreenPreview = forwardRef<LiveScreenPreviewRef, LiveScreenPrev
       canvas.height = video.offsetHeight;
 
       ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.strokeStyle = "#00d4ff";
-      ctx.lineWidth = 3;
-      ctx.lineCap = "round";
-      ctx.lineJoin = "round";
 
-      const drawPath = (points: Point[]) => {
-        if (points.length < 2) return;
-        ctx.beginPath();
-        ctx.moveTo(points[0].x, points[0].y);
-        for (let i = 1; i < points.length; i++) {
-          ctx.lineTo(points[i].x, points[i].y);
-        }
-        ctx.stroke();
-      };
+      paths.forEach((path) => drawPath(ctx, path));
+      if (currentStroke) {
+        drawPath(ctx, currentStroke);
+      }
 
-      paths.forEach((path) => drawPath(path.points));
-      if (currentPath.length > 1) {
-        drawPath(currentPath);
+      // Crop rectangle in display coordinates, with everything outside dimmed.
+      let crop: CropRegion | null = null;
+      if (cropDraft) {
+        crop = {
+          x: Math.min(cropDraft.start.x, cropDraft.end.x),
+          y: Math.min(cropDraft.start.y, cropDraft.end.y),
+          width: Math.abs(cropDraft.end.x - cropDraft.start.x),
+          height: Math.abs(cropDraft.end.y - cropDraft.start.y),
+        };
+      } else if (cropRegion && video.videoWidth) {
+        const { scaleX, scaleY } = getVideoScale(video);
+        crop = {
+          x: cropRegion.x / scaleX,
+          y: cropRegion.y / scaleY,
+          width: cropRegion.width / scaleX,
+          height: cropRegion.height / scaleY,
+        };
+      }
+
+      if (crop) {
+        ctx.save();
+        ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+        ctx.beginPath();
+        ctx.rect(0, 0, canvas.width, canvas.height);
+        ctx.rect(crop.x, crop.y, crop.width, crop.height);
+        ctx.fill("evenodd");
+        ctx.strokeStyle = "#00d4ff";
+        ctx.setLineDash([6, 4]);
+        ctx.lineWidth = 2;
+        ctx.strokeRect(crop.x, crop.y, crop.width, crop.height);
+        ctx.restore();
       }
     };
 
     drawOverlay();
-  }, [paths, currentPath, isSharing]);
+  }, [paths, currentStroke, isSharing, cropDraft, cropRegion]);
 
   const startScreenShare = useCallback(async () => {
     try {
@@ -107,35 +203,86 @@ export const LiveScreenPreview = forwardRef<LiveScreenPreviewRef, LiveScreenPrev
     }
   }, [toast]);
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if (!drawMode || !isSharing) return;
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!(drawMode || cropMode) || !isSharing) return;
     const rect = containerRef.current?.getBoundingClientRect();
     if (!rect) return;
-    
+
+    // Keep receiving moves when a finger or pen drifts outside the preview
+    e.currentTarget.setPointerCapture(e.pointerId);
     const x = e.clientX - rect.left;
     const y = e.clientY - rect.top;
-    setCurrentPath([{ x, y }]);
-    setIsDrawing(true);
+    if (cropMode) {
+      setCropDraft({ start: { x, y }, end: { x, y } });
+      return;
+    }
+    setCurrentStroke({ tool, color, width: TOOL_WIDTHS[tool], points: [{ x, y }] });
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDrawing || !drawMode) return;
+  const handlePointerMove = (e: React.PointerEvent) => {
     const rect = containerRef.current?.getBoundingClientRect();
     if (!rect) return;
 
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    setCurrentPath((prev) => [...prev, { x, y }]);
+    const point: Point = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    if (cropMode && cropDraft) {
+      setCropDraft({ ...cropDraft, end: point });
+      return;
+    }
+    if (!currentStroke || !drawMode) return;
+    setCurrentStroke((prev) => prev && {
+      ...prev,
+      // Shapes only need their anchor and the current corner
+      points: isShapeTool(prev.tool) ? [prev.points[0], point] : [...prev.points, point],
+    });
   };
 
-  const handleMouseUp = () => {
-    if (currentPath.length > 1) {
-      setPaths((prev) => [...prev, { points: currentPath }]);
+  const finishCrop = () => {
+    const video = videoRef.current;
+    if (!cropDraft || !video) return;
+    setCropDraft(null);
+
+    const { scaleX, scaleY } = getVideoScale(video);
+    const left = Math.max(0, Math.min(cropDraft.start.x, cropDraft.end.x) * scaleX);
+    const top = Math.max(0, Math.min(cropDraft.start.y, cropDraft.end.y) * scaleY);
+    const right = Math.min(video.videoWidth, Math.max(cropDraft.start.x, cropDraft.end.x) * scaleX);
+    const bottom = Math.min(video.videoHeight, Math.max(cropDraft.start.y, cropDraft.end.y) * scaleY);
+
+    // Treat a click or tiny drag as a cancel rather than a 1px crop.
+    if (right - left < MIN_CROP_SIZE || bottom - top < MIN_CROP_SIZE) return;
+
+    setCropRegion({
+      x: Math.round(left),
+      y: Math.round(top),
+      width: Math.round(right - left),
+      height: Math.round(bottom - top),
+    });
+    setCropMode(false);
+  };
+
+  const handlePointerUp = () => {
+    if (cropDraft) {
+      finishCrop();
+      return;
+    }
+    if (currentStroke && currentStroke.points.length > 1) {
+      setPaths((prev) => [...prev, currentStroke]);
+      setRedoStack([]);
     }
-    setIsDrawing(false);
-    setCurrentPath([]);
+    setCurrentStroke(null);
   };
 
+  const undo = useCallback(() => {
+    if (paths.length === 0) return;
+    setRedoStack((prev) => [...prev, paths[paths.length - 1]]);
+    setPaths(paths.slice(0, -1));
+  }, [paths]);
+
+  const redo = useCallback(() => {
+    if (redoStack.length === 0) return;
+    setPaths((prev) => [...prev, redoStack[redoStack.length - 1]]);
+    setRedoStack(redoStack.slice(0, -1));
+  }, [redoStack]);
+
   const captureScreen = useCallback(async () => {
     if (!videoRef.current || !stream) return;
 
@@ -143,6 +290,9 @@ export const LiveScreenPreview = forwardRef<LiveScreenPreviewRef, LiveScreenPrev
     onClearSolution?.();
 
     const video = videoRef.current;
+    if (video.videoWidth === 0 || video.videoHeight === 0) {
+      throw new Error("The shared screen isn't showing yet. Try again in a moment.");
+    }
     const canvas = document.createElement("canvas");
     canvas.width = video.videoWidth;
     canvas.height = video.videoHeight;
@@ -150,50 +300,111 @@ export const LiveScreenPreview = forwardRef<LiveScreenPreviewRef, LiveScreenPrev
     const ctx = canvas.getContext("2d");
     if (ctx) {
       ctx.drawImage(video, 0, 0);
+
+      const area: Bounds = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+      if (cropRegion) {
+        area.x = Math.min(cropRegion.x, canvas.width - 1);
+        area.y = Math.min(cropRegion.y, canvas.height - 1);
+        area.width = Math.min(cropRegion.width, canvas.width - area.x);
+        area.height = Math.min(cropRegion.height, canvas.height - area.y);
+      }
       
-      // Draw paths on the captured image
+      // Draw paths on the captured image, numbering each mark inside the
+      // captured area so the solver can say which answer belongs to which
+      const annotations: Annotation[] = [];
       if (paths.length > 0) {
-        const scaleX = video.videoWidth / video.offsetWidth;
-        const scaleY = video.videoHeight / video.offsetHeight;
-        
-        ctx.strokeStyle = "#00d4ff";
-        ctx.lineWidth = 4;
-        ctx.lineCap = "round";
-        ctx.lineJoin = "round";
-        
+        const { scaleX, scaleY } = getVideoScale(video);
+        paths.forEach((path) => drawPath(ctx, path, scaleX, scaleY));
         paths.forEach((path) => {
-          if (path.points.length < 2) return;
-          ctx.beginPath();
-          ctx.moveTo(path.points[0].x * scaleX, path.points[0].y * scaleY);
-          for (let i = 1; i < path.points.length; i++) {
-            ctx.lineTo(path.points[i].x * scaleX, path.points[i].y * scaleY);
-          }
-          ctx.stroke();
+          const box = pathBounds(path, scaleX, scaleY);
+          const region = toCaptureRegion(box, area);
+          if (!region) return;
+          const id = annotations.length + 1;
+          annotations.push({ id, tool: path.tool, region });
+          drawLabel(ctx, String(id), { x: box.x, y: box.y }, path.color, area, (scaleX + scaleY) / 2);
         });
       }
       
-      const imageData = canvas.toDataURL("image/png");
-      onCapture(imageData);
+      let output = canvas;
+      if (cropRegion) {
+        output = document.createElement("canvas");
+        output.width = area.width;
+        output.height = area.height;
+        output.getContext("2d")?.drawImage(canvas, area.x, area.y, area.width, area.height, 0, 0, area.width, area.height);
+      }
+      
+      const imageData = await prepareImage(output);
+      onCapture(imageData, annotations);
+    }
+  }, [stream, onCapture, paths, onClearSolution, cropRegion]);
+
+  // Manual and automatic captures both land here, so a failure always gets a toast
+  const captureSafely = useCallback(async () => {
+    try {
+      await captureScreen();
+    } catch (error) {
+      console.error("Error capturing screen:", error);
+      toast({
+        title: "Couldn't capture the screen",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
     }
-  }, [stream, onCapture, paths, onClearSolution]);
+  }, [captureScreen, toast]);
+
+  const { resetBaseline } = useAutoCapture({
+    videoRef,
+    region: cropRegion,
+    enabled: autoCapture && isSharing && !paused,
+    sensitivity,
+    isLoading,
+    onCapture: captureSafely,
+  });
+
+  // Manual captures also reset auto-capture's idea of "unchanged"
+  const captureNow = useCallback(async () => {
+    resetBaseline();
+    await captureSafely();
+  }, [resetBaseline, captureSafely]);
 
   // Expose captureScreen to parent via ref
   useImperativeHandle(ref, () => ({
-    captureScreen
-  }), [captureScreen]);
+    captureScreen: captureNow
+  }), [captureNow]);
 
   // Spacebar handler
   useEffect(() => {
+    if (!isSharing || !isActive) return;
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.code === "Space" && isSharing && !isLoading) {
+      if (e.code !== "Space" || isLoading || isEditableTarget(e.target) || isInteractiveTarget(e.target)) return;
+
+      e.preventDefault();
+      captureNow();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isSharing, isActive, isLoading, captureNow]);
+
+  // Undo/redo shortcuts for annotations
+  useEffect(() => {
+    if (!isSharing || !isActive) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
         e.preventDefault();
-        captureScreen();
+        undo();
+      } else if (key === "y" || (key === "z" && e.shiftKey)) {
+        e.preventDefault();
+        redo();
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [isSharing, isLoading, captureScreen]);
+  }, [isSharing, isActive, undo, redo]);
 
   const stopSharing = useCallback(() => {
     if (stream) {
@@ -202,11 +413,24 @@ export const LiveScreenPreview = forwardRef<LiveScreenPreviewRef, LiveScreenPrev
     }
     setIsSharing(false);
     setPaths([]);
+    setRedoStack([]);
+    setAutoCapture(false);
   }, [stream]);
 
+  const toggleAutoCapture = (enabled: boolean) => {
+    setAutoCapture(enabled);
+    if (enabled && !cropRegion) {
+      toast({
+        title: "Tip: select a capture area",
+        description: "Auto-capture watches the whole screen, so any change there will trigger a solve.",
+      });
+    }
+  };
+
   const clearDrawings = () => {
     setPaths([]);
-    setCurrentPath([]);
+    setRedoStack([]);
+    setCurrentStroke(null);
   };
 
   return (
@@ -214,11 +438,15 @@ export const LiveScreenPreview = forwardRef<LiveScreenPreviewRef, LiveScreenPrev
       <div 
         className="aspect-video bg-background/50 relative"
         ref={containerRef}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
-        style={{ cursor: drawMode && isSharing ? "crosshair" : "default" }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        style={{
+          cursor: (drawMode || cropMode) && isSharing ? "crosshair" : "default",
+          // Stop touch drags from scrolling the page while annotating
+          touchAction: (drawMode || cropMode) && isSharing ? "none" : "auto",
+        }}
       >
         {isSharing ? (
           <>
@@ -248,9 +476,11 @@ export const LiveScreenPreview = forwardRef<LiveScreenPreviewRef, LiveScreenPrev
           </div>
         )}
 
-        {isSharing && drawMode && (
+        {isSharing && (drawMode || cropMode) && (
           <div className="absolute top-3 right-3 bg-primary/90 backdrop-blur-sm px-3 py-1.5 rounded-full">
-            <span className="text-xs font-medium text-primary-foreground">Draw Mode</span>
+            <span className="text-xs font-medium text-primary-foreground">
+              {cropMode ? "Drag to select capture area" : "Draw Mode"}
+            </span>
           </div>
         )}
       </div>
@@ -268,13 +498,37 @@ export const LiveScreenPreview = forwardRef<LiveScreenPreviewRef, LiveScreenPrev
         ) : (
           <>
             <Button
-              onClick={() => setDrawMode(!drawMode)}
+              onClick={() => {
+                setDrawMode(!drawMode);
+                setCropMode(false);
+              }}
               variant={drawMode ? "default" : "outline"}
               size="icon"
               title="Toggle draw mode"
             >
               <Pencil className="w-4 h-4" />
             </Button>
+            <Button
+              onClick={() => {
+                setCropMode(!cropMode);
+                setDrawMode(false);
+              }}
+              variant={cropMode ? "default" : "outline"}
+              size="icon"
+              title="Select capture area"
+            >
+              <Crop className="w-4 h-4" />
+            </Button>
+            {cropRegion && (
+              <Button
+                onClick={() => setCropRegion(null)}
+                variant="outline"
+                size="icon"
+                title="Capture full screen"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            )}
             {paths.length > 0 && (
               <Button
                 onClick={clearDrawings}
@@ -286,8 +540,14 @@ export const LiveScreenPreview = forwardRef<LiveScreenPreviewRef, LiveScreenPrev
               </Button>
             )}
             <div className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-muted/50 rounded-md text-sm text-muted-foreground">
-              <kbd className="px-2 py-1 bg-background rounded border text-xs font-mono">Space</kbd>
-              <span>to capture</span>
+              {autoCapture ? (
+                <span>Watching for new problems…</span>
+              ) : (
+                <>
+                  <kbd className="px-2 py-1 bg-background rounded border text-xs font-mono">Space</kbd>
+                  <span>to capture</span>
+                </>
+              )}
             </div>
             <Button
               onClick={stopSharing}
@@ -299,6 +559,78 @@ export const LiveScreenPreview = forwardRef<LiveScreenPreviewRef, LiveScreenPrev
           </>
         )}
       </div>
+
+      {isSharing && drawMode && (
+        <div className="px-4 pb-4 flex flex-wrap items-center gap-3">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={tool}
+            onValueChange={(value) => value && setTool(value as DrawingTool)}
+          >
+            <ToggleGroupItem value="pen" title="Pen" aria-label="Pen">
+              <Pencil className="w-4 h-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="highlighter" title="Highlighter" aria-label="Highlighter">
+              <Highlighter className="w-4 h-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="rectangle" title="Rectangle" aria-label="Rectangle">
+              <Square className="w-4 h-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="arrow" title="Arrow" aria-label="Arrow">
+              <MoveUpRight className="w-4 h-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <div className="flex items-center gap-1.5">
+            {PEN_COLORS.map((swatch) => (
+              <button
+                key={swatch}
+                type="button"
+                onClick={() => setColor(swatch)}
+                className={`w-6 h-6 rounded-full border-2 transition-transform ${
+                  color === swatch ? "border-foreground scale-110" : "border-transparent"
+                }`}
+                style={{ backgroundColor: swatch }}
+                title={swatch}
+                aria-label={`Color ${swatch}`}
+              />
+            ))}
+          </div>
+          <div className="flex items-center gap-1 ml-auto">
+            <Button onClick={undo} disabled={paths.length === 0} variant="ghost" size="icon" title="Undo (Ctrl+Z)">
+              <Undo2 className="w-4 h-4" />
+            </Button>
+            <Button onClick={redo} disabled={redoStack.length === 0} variant="ghost" size="icon" title="Redo (Ctrl+Y)">
+              <Redo2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isSharing && (
+        <div className="px-4 pb-4 flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="auto-capture" checked={autoCapture} onCheckedChange={toggleAutoCapture} />
+            <Label htmlFor="auto-capture" className="text-sm whitespace-nowrap">
+              Auto-capture
+            </Label>
+          </div>
+          {autoCapture && (
+            <div className="flex-1 flex items-center gap-3">
+              <span className="text-xs text-muted-foreground whitespace-nowrap">Sensitivity</span>
+              <Slider
+                value={[sensitivity]}
+                onValueChange={([value]) => setSensitivity(value)}
+                min={0}
+                max={100}
+                step={5}
+                aria-label="Auto-capture sensitivity"
+              />
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 });
@@ -0,0 +1,59 @@
+import { useMemo } from "react";
+import katex from "katex";
+import "katex/dist/katex.min.css";
+import { Copy } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface MathFormulaProps {
+  latex: string;
+  displayMode?: boolean;
+  className?: string;
+}
+
+export const MathFormula = ({ latex, displayMode = false, className }: MathFormulaProps) => {
+  const { toast } = useToast();
+  const html = useMemo(
+    () => katex.renderToString(latex, { displayMode, throwOnError: false, output: "html" }),
+    [latex, displayMode],
+  );
+
+  const copyLatex = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    navigator.clipboard.writeText(latex);
+    toast({
+      title: "Copied!",
+      description: "LaTeX copied to clipboard",
+    });
+  };
+
+  const copyButton = (
+    <button
+      type="button"
+      onClick={copyLatex}
+      title="Copy as LaTeX"
+      className={cn(
+        "opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity rounded bg-background/80 text-muted-foreground hover:text-primary",
+        displayMode ? "absolute top-1 right-1 p-1.5" : "absolute -top-3 -right-3 p-1",
+      )}
+    >
+      <Copy className={displayMode ? "w-3.5 h-3.5" : "w-3 h-3"} />
+    </button>
+  );
+
+  if (displayMode) {
+    return (
+      <div className={cn("group relative my-3 px-3 py-2 rounded-lg bg-secondary/50 overflow-x-auto text-foreground", className)}>
+        <div dangerouslySetInnerHTML={{ __html: html }} />
+        {copyButton}
+      </div>
+    );
+  }
+
+  return (
+    <span className={cn("group relative inline-block text-foreground", className)}>
+      <span dangerouslySetInnerHTML={{ __html: html }} />
+      {copyButton}
+    </span>
+  );
+};
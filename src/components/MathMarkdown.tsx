@@ -0,0 +1,55 @@
+import ReactMarkdown, { Components } from "react-markdown";
+import remarkMath from "remark-math";
+import { MathFormula } from "@/components/MathFormula";
+
+interface MathMarkdownProps {
+  children: string;
+  components?: Components;
+}
+
+// Models sometimes fall back to \( \) and \[ \] despite the prompt asking for
+// dollar delimiters, which remark-math does not understand.
+const normalizeDelimiters = (markdown: string) =>
+  markdown
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, math) => `\n$$\n${math.trim()}\n$$\n`)
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, math) => `$${math.trim()}$`);
+
+const classList = (className: unknown): unknown[] =>
+  Array.isArray(className) ? className : typeof className === "string" ? className.split(" ") : [];
+
+export const MathMarkdown = ({ children, components = {} }: MathMarkdownProps) => {
+  const { code: CodeComponent, pre: PreComponent } = components;
+
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkMath]}
+      components={{
+        ...components,
+        // remark-math hands math nodes to rehype as <code class="math-inline">
+        // and <pre><code class="math-display">.
+        code: ({ node, className, children: code, ...props }) => {
+          const classes = classList(className);
+          if (classes.includes("math-inline") || classes.includes("math-display")) {
+            return <MathFormula latex={String(code).trim()} displayMode={classes.includes("math-display")} />;
+          }
+          if (CodeComponent && typeof CodeComponent !== "string") {
+            return <CodeComponent node={node} className={className} {...props}>{code}</CodeComponent>;
+          }
+          return <code className={className} {...props}>{code}</code>;
+        },
+        pre: ({ node, children: content, ...props }) => {
+          const child = node?.children[0];
+          if (child?.type === "element" && classList(child.properties.className).includes("math-display")) {
+            return <>{content}</>;
+          }
+          if (PreComponent && typeof PreComponent !== "string") {
+            return <PreComponent node={node} {...props}>{content}</PreComponent>;
+          }
+          return <pre {...props}>{content}</pre>;
+        },
+      }}
+    >
+      {normalizeDelimiters(children)}
+    </ReactMarkdown>
+  );
+};
@@ -0,0 +1,95 @@
+import { useCallback, useState } from "react";
+import { ClipboardPaste } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { prepareImage } from "@/lib/image-prep";
+import { getClipboardImage, loadClipboardImage, readAsDataUrl } from "@/lib/clipboard";
+
+interface PasteCaptureProps {
+  onImageSelect: (imageData: string) => void;
+  isLoading: boolean;
+}
+
+export const PasteCapture = ({ onImageSelect, isLoading }: PasteCaptureProps) => {
+  const [preview, setPreview] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleDataUrl = useCallback(async (dataUrl: string) => {
+    setPreview(dataUrl);
+    onImageSelect(await prepareImage(dataUrl));
+  }, [onImageSelect]);
+
+  // Handled here rather than by the page-wide paste handler so the preview shows
+  const handlePaste = useCallback((e: React.ClipboardEvent) => {
+    const image = getClipboardImage(e.clipboardData);
+    if (!image || isLoading) return;
+    e.preventDefault();
+    loadClipboardImage(image)
+      .then(handleDataUrl)
+      .catch((error) => {
+        toast({
+          title: "Couldn't paste that image",
+          description: error.message,
+          variant: "destructive",
+        });
+      });
+  }, [handleDataUrl, isLoading, toast]);
+
+  // The async clipboard API needs a user gesture and isn't available everywhere,
+  // so Ctrl+V into the drop zone stays the primary path.
+  const readClipboard = useCallback(async () => {
+    try {
+      const items = await navigator.clipboard.read();
+      for (const item of items) {
+        const type = item.types.find((t) => t.startsWith("image/"));
+        if (type) {
+          await handleDataUrl(await readAsDataUrl(await item.getType(type)));
+          return;
+        }
+      }
+      toast({
+        title: "No image on the clipboard",
+        description: "Copy a screenshot first, then paste it here",
+      });
+    } catch (error) {
+      console.error("Error reading clipboard:", error);
+      toast({
+        title: "Couldn't read the clipboard",
+        description: "Click the box and press Ctrl+V instead",
+        variant: "destructive",
+      });
+    }
+  }, [handleDataUrl, toast]);
+
+  return (
+    <div className="w-full space-y-3">
+      <div
+        tabIndex={0}
+        onPaste={handlePaste}
+        className="flex flex-col items-center justify-center w-full h-64 glass rounded-xl transition-all duration-300 hover:border-primary/50 focus-visible:outline-none focus-visible:border-primary focus-visible:shadow-glow"
+      >
+        {preview ? (
+          <img src={preview} alt="Pasted math problem" className="max-h-60 w-auto object-contain rounded-lg" />
+        ) : (
+          <div className="flex flex-col items-center gap-4 p-8 text-center">
+            <div className="p-4 rounded-full bg-primary/10">
+              <ClipboardPaste className="w-8 h-8 text-primary" />
+            </div>
+            <div>
+              <p className="font-display text-lg text-foreground">Paste a screenshot</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Click here and press <kbd className="px-1.5 py-0.5 bg-background rounded border text-xs font-mono">Ctrl+V</kbd>
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+      {"clipboard" in navigator && "read" in navigator.clipboard && (
+        <Button onClick={readClipboard} disabled={isLoading} variant="secondary" className="w-full gap-2">
+          <ClipboardPaste className="w-4 h-4" />
+          Paste from clipboard
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,416 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AlertCircle, CheckCircle2, Crop, Eye, FileText, Loader2, RotateCcw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useSolveHistory } from "@/hooks/use-solve-history";
+import { useQuota } from "@/hooks/use-quota";
+import { AnalysisResult, ProblemRegion, SolveMode } from "@/lib/analysis";
+import { prepareImage } from "@/lib/image-prep";
+import { openPdf, PDFDocumentProxy, renderPdfPage } from "@/lib/pdf";
+import { solveImage } from "@/lib/solve";
+import { cn } from "@/lib/utils";
+
+interface PdfWorksheetProps {
+  file: File;
+  mode: SolveMode;
+  accuracy: boolean;
+  onClose: () => void;
+  onShowResult: (image: string, result: AnalysisResult) => void;
+}
+
+type PageStatus =
+  | { state: "solving" }
+  | { state: "done"; image: string; result: AnalysisResult }
+  | { state: "failed"; error: string };
+
+const MAX_PAGES = 30;
+const THUMBNAIL_WIDTH = 240;
+const CROP_PREVIEW_WIDTH = 900;
+const SOLVE_WIDTH = 1600;
+
+const cropCanvas = (canvas: HTMLCanvasElement, region: ProblemRegion) => {
+  const x = Math.round(region.x * canvas.width);
+  const y = Math.round(region.y * canvas.height);
+  const width = Math.max(1, Math.round(region.width * canvas.width));
+  const height = Math.max(1, Math.round(region.height * canvas.height));
+
+  const output = document.createElement("canvas");
+  output.width = width;
+  output.height = height;
+  output.getContext("2d")?.drawImage(canvas, x, y, width, height, 0, 0, width, height);
+  return output;
+};
+
+interface PageCropDialogProps {
+  image: string | null;
+  pageNumber: number;
+  initialRegion?: ProblemRegion;
+  onSave: (region: ProblemRegion | undefined) => void;
+  onCancel: () => void;
+}
+
+const PageCropDialog = ({ image, pageNumber, initialRegion, onSave, onCancel }: PageCropDialogProps) => {
+  const [region, setRegion] = useState<ProblemRegion | undefined>(initialRegion);
+  const [anchor, setAnchor] = useState<{ x: number; y: number } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const toFraction = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!anchor) return;
+    const point = toFraction(e);
+    setRegion({
+      x: Math.min(anchor.x, point.x),
+      y: Math.min(anchor.y, point.y),
+      width: Math.abs(point.x - anchor.x),
+      height: Math.abs(point.y - anchor.y),
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Crop page {pageNumber}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">Drag over the part of the page you want solved.</p>
+        <div className="max-h-[65vh] overflow-y-auto rounded-lg">
+          {image ? (
+            <div
+              ref={containerRef}
+              className="relative cursor-crosshair select-none touch-none"
+              onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                setAnchor(toFraction(e));
+                setRegion(undefined);
+              }}
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => setAnchor(null)}
+            >
+              <img src={image} alt={`Page ${pageNumber}`} className="w-full h-auto" draggable={false} />
+              {region && (
+                <div
+                  className="absolute border-2 border-dashed border-primary bg-primary/10 shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]"
+                  style={{
+                    left: `${region.x * 100}%`,
+                    top: `${region.y * 100}%`,
+                    width: `${region.width * 100}%`,
+                    height: `${region.height * 100}%`,
+                  }}
+                />
+              )}
+            </div>
+          ) : (
+            <div className="h-64 flex items-center justify-center">
+              <Loader2 className="w-8 h-8 text-primary animate-spin" />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onSave(undefined)}>
+            Use whole page
+          </Button>
+          <Button onClick={() => onSave(region && region.width > 0.02 && region.height > 0.02 ? region : undefined)}>
+            Save crop
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/**
+ * Renders an uploaded PDF page by page, lets the student pick and crop pages,
+ * then solves each selected page in turn. Pages are saved to history as one
+ * worksheet, and a failed page doesn't stop the rest.
+ */
+export const PdfWorksheet = ({ file, mode, accuracy, onClose, onShowResult }: PdfWorksheetProps) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [crops, setCrops] = useState<Record<number, ProblemRegion>>({});
+  const [statuses, setStatuses] = useState<Record<number, PageStatus>>({});
+  const [isSolving, setIsSolving] = useState(false);
+  const [croppingPage, setCroppingPage] = useState<number | null>(null);
+  const [cropImage, setCropImage] = useState<string | null>(null);
+  const worksheetIdRef = useRef<string | null>(null);
+  const { saveSolve, createWorksheet } = useSolveHistory();
+  const { refresh: refreshQuota } = useQuota();
+  const { toast } = useToast();
+
+  const pageCount = pdf ? Math.min(pdf.numPages, MAX_PAGES) : 0;
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    const load = async () => {
+      const document = await openPdf(file);
+      loaded = document;
+      if (cancelled) return;
+      setPdf(document);
+
+      const count = Math.min(document.numPages, MAX_PAGES);
+      setSelected(new Set(Array.from({ length: count }, (_, i) => i + 1)));
+      if (document.numPages > MAX_PAGES) {
+        toast({
+          title: `Only the first ${MAX_PAGES} pages are shown`,
+          description: `This PDF has ${document.numPages} pages.`,
+        });
+      }
+
+      for (let page = 1; page <= count && !cancelled; page++) {
+        const canvas = await renderPdfPage(document, page, THUMBNAIL_WIDTH);
+        if (!cancelled) setThumbnails((prev) => [...prev, canvas.toDataURL("image/jpeg", 0.7)]);
+      }
+    };
+
+    load().catch((error) => {
+      if (cancelled) return;
+      console.error("Error opening PDF:", error);
+      toast({
+        title: "Couldn't open that PDF",
+        description: "The file may be damaged or password-protected.",
+        variant: "destructive",
+      });
+      onClose();
+    });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file, toast, onClose]);
+
+  const openCrop = useCallback(async (pageNumber: number) => {
+    if (!pdf) return;
+    setCroppingPage(pageNumber);
+    setCropImage(null);
+    try {
+      const canvas = await renderPdfPage(pdf, pageNumber, CROP_PREVIEW_WIDTH);
+      setCropImage(canvas.toDataURL("image/jpeg", 0.85));
+    } catch (error) {
+      console.error(`Error rendering page ${pageNumber}:`, error);
+      setCroppingPage(null);
+      toast({
+        title: "Couldn't show that page",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [pdf, toast]);
+
+  const solvePages = useCallback(async (pages: number[]) => {
+    if (!pdf || pages.length === 0) return;
+    setIsSolving(true);
+    setStatuses((prev) => {
+      const next = { ...prev };
+      pages.forEach((page) => delete next[page]);
+      return next;
+    });
+
+    let failures = 0;
+    for (const page of pages) {
+      setStatuses((prev) => ({ ...prev, [page]: { state: "solving" } }));
+      try {
+        const rendered = await renderPdfPage(pdf, page, SOLVE_WIDTH);
+        const image = await prepareImage(crops[page] ? cropCanvas(rendered, crops[page]) : rendered);
+        const result = await solveImage(image, mode, { accuracy });
+        setStatuses((prev) => ({ ...prev, [page]: { state: "done", image, result } }));
+
+        // Created on the first solved page so an all-failed run leaves nothing behind.
+        // Saving is best effort: the page is solved either way, and retrying it would cost quota.
+        worksheetIdRef.current ??= await createWorksheet({ title: file.name, pageCount }).catch((worksheetError) => {
+          console.error("Error creating worksheet:", worksheetError);
+          return null;
+        });
+        const worksheet = worksheetIdRef.current ? { id: worksheetIdRef.current, page } : undefined;
+        await saveSolve({ image, result, worksheet }).catch((saveError) => {
+          console.error("Error saving worksheet page:", saveError);
+        });
+      } catch (error) {
+        failures++;
+        console.error(`Error solving page ${page}:`, error);
+        const message = error instanceof Error ? error.message : "Something went wrong";
+        setStatuses((prev) => ({ ...prev, [page]: { state: "failed", error: message } }));
+      }
+    }
+
+    setIsSolving(false);
+    refreshQuota();
+    toast({
+      title: failures === 0 ? "Worksheet solved!" : `${pages.length - failures} of ${pages.length} pages solved`,
+      description: failures === 0 ? "Pick a page to see its answers" : "You can retry the pages that failed",
+      variant: failures === pages.length ? "destructive" : "default",
+    });
+  }, [pdf, crops, mode, accuracy, file.name, pageCount, createWorksheet, saveSolve, refreshQuota, toast]);
+
+  const togglePage = (page: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(page)) next.delete(page);
+      else next.add(page);
+      return next;
+    });
+  };
+
+  const selectedPages = Array.from(selected).sort((a, b) => a - b);
+  const attempted = selectedPages.filter((page) => statuses[page]);
+  const finished = attempted.filter((page) => statuses[page].state !== "solving").length;
+  const failedPages = selectedPages.filter((page) => statuses[page]?.state === "failed");
+  // Solved pages are already in history; solving again only picks up the rest
+  const pendingPages = selectedPages.filter((page) => statuses[page]?.state !== "done");
+
+  return (
+    <div className="glass rounded-xl overflow-hidden">
+      <div className="p-4 border-b border-border/50 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <FileText className="w-5 h-5 text-primary shrink-0" />
+          <h3 className="font-display truncate">{file.name}</h3>
+          {pdf && <span className="text-xs text-muted-foreground shrink-0">({pdf.numPages} pages)</span>}
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose} disabled={isSolving} title="Close PDF">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {!pdf ? (
+        <div className="p-8 text-center">
+          <Loader2 className="w-8 h-8 text-primary mx-auto animate-spin mb-3" />
+          <p className="text-muted-foreground">Opening PDF...</p>
+        </div>
+      ) : (
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 max-h-[28rem] overflow-y-auto">
+            {Array.from({ length: pageCount }, (_, i) => i + 1).map((page) => {
+              const status = statuses[page];
+              return (
+                <div
+                  key={page}
+                  className={cn(
+                    "rounded-lg border bg-background/50 p-2 space-y-2 transition-colors",
+                    selected.has(page) ? "border-primary/60" : "border-border/50 opacity-60",
+                  )}
+                >
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 text-xs cursor-pointer">
+                      <Checkbox
+                        checked={selected.has(page)}
+                        onCheckedChange={() => togglePage(page)}
+                        disabled={isSolving}
+                      />
+                      Page {page}
+                    </label>
+                    {status?.state === "solving" && <Loader2 className="w-4 h-4 text-primary animate-spin" />}
+                    {status?.state === "done" && <CheckCircle2 className="w-4 h-4 text-primary" />}
+                    {status?.state === "failed" && (
+                      <span title={status.error}>
+                        <AlertCircle className="w-4 h-4 text-destructive" />
+                      </span>
+                    )}
+                  </div>
+                  <div className="relative aspect-[3/4] bg-white rounded overflow-hidden">
+                    {thumbnails[page - 1] ? (
+                      <img src={thumbnails[page - 1]} alt={`Page ${page}`} className="w-full h-full object-contain" />
+                    ) : (
+                      <Loader2 className="absolute inset-0 m-auto w-5 h-5 text-muted-foreground animate-spin" />
+                    )}
+                    {crops[page] && (
+                      <div
+                        className="absolute border-2 border-dashed border-primary"
+                        style={{
+                          left: `${crops[page].x * 100}%`,
+                          top: `${crops[page].y * 100}%`,
+                          width: `${crops[page].width * 100}%`,
+                          height: `${crops[page].height * 100}%`,
+                        }}
+                      />
+                    )}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="flex-1 h-7 gap-1 text-xs"
+                      onClick={() => openCrop(page)}
+                      disabled={isSolving}
+                    >
+                      <Crop className="w-3 h-3" />
+                      {crops[page] ? "Edit crop" : "Crop"}
+                    </Button>
+                    {status?.state === "done" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="flex-1 h-7 gap-1 text-xs"
+                        onClick={() => onShowResult(status.image, status.result)}
+                      >
+                        <Eye className="w-3 h-3" />
+                        View
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {attempted.length > 0 && (
+            <div className="space-y-1">
+              <Progress value={(finished / attempted.length) * 100} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {finished} of {attempted.length} pages done
+                {failedPages.length > 0 && ` · ${failedPages.length} failed`}
+              </p>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button
+              onClick={() => solvePages(pendingPages)}
+              disabled={isSolving || pendingPages.length === 0}
+              className="flex-1 gap-2"
+            >
+              {isSolving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Solve {pendingPages.length} {pendingPages.length === 1 ? "page" : "pages"}
+            </Button>
+            {failedPages.length > 0 && !isSolving && (
+              <Button variant="outline" onClick={() => solvePages(failedPages)} className="gap-2">
+                <RotateCcw className="w-4 h-4" />
+                Retry failed
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {croppingPage !== null && (
+        <PageCropDialog
+          key={croppingPage}
+          image={cropImage}
+          pageNumber={croppingPage}
+          initialRegion={crops[croppingPage]}
+          onCancel={() => setCroppingPage(null)}
+          onSave={(region) => {
+            setCrops((prev) => {
+              const next = { ...prev };
+              if (region) next[croppingPage] = region;
+              else delete next[croppingPage];
+              return next;
+            });
+            setCroppingPage(null);
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import { AlertTriangle, MessageCircleQuestion, ShieldAlert, ShieldCheck, ShieldQuestion } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Components } from "react-markdown";
+import { MathFormula } from "@/components/MathFormula";
+import { MathMarkdown } from "@/components/MathMarkdown";
+import { DetectedProblem } from "@/lib/analysis";
+import { cn } from "@/lib/utils";
+import { Verification, VerificationStatus } from "@/lib/verify";
+
+interface ProblemCardProps {
+  problem: DetectedProblem;
+  index: number;
+  isHint: boolean;
+  isSelected: boolean;
+  onSelect: () => void;
+  onAskDavid?: () => void;
+  /** Result of the local algebra check; absent while it runs and for hints. */
+  verification?: Verification;
+  /** Number of independent solutions asked for in accuracy mode, including any that failed. */
+  samples?: number;
+}
+
+const markdownComponents: Components = {
+  h1: ({ children }) => <h1 className="text-xl font-display text-foreground mt-4 mb-2">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-lg font-display text-foreground mt-4 mb-2">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-base font-display text-foreground mt-3 mb-2">{children}</h3>,
+  p: ({ children }) => <p className="text-muted-foreground mb-3 leading-relaxed">{children}</p>,
+  strong: ({ children }) => <strong className="text-primary font-semibold">{children}</strong>,
+  code: ({ children }) => (
+    <code className="bg-secondary px-2 py-1 rounded text-primary font-display text-sm">
+      {children}
+    </code>
+  ),
+  pre: ({ children }) => (
+    <pre className="bg-secondary p-4 rounded-lg overflow-x-auto my-4">
+      {children}
+    </pre>
+  ),
+  ul: ({ children }) => <ul className="list-disc list-inside space-y-1 mb-3">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal list-inside space-y-1 mb-3">{children}</ol>,
+  li: ({ children }) => <li className="text-muted-foreground">{children}</li>,
+};
+
+const confidenceClass = (confidence: number) =>
+  confidence >= 0.8 ? "text-primary" : confidence >= 0.5 ? "text-yellow-400" : "text-destructive";
+
+const verificationBadges: Record<VerificationStatus, { label: string; icon: JSX.Element; className: string }> = {
+  verified: {
+    label: "Verified",
+    icon: <ShieldCheck className="w-3 h-3" />,
+    className: "border-primary/50 text-primary",
+  },
+  unverified: {
+    label: "Unverified",
+    icon: <ShieldQuestion className="w-3 h-3" />,
+    className: "border-border text-muted-foreground",
+  },
+  contradicted: {
+    label: "Check failed",
+    icon: <ShieldAlert className="w-3 h-3" />,
+    className: "border-destructive/60 text-destructive",
+  },
+};
+
+export const ProblemCard = ({
+  problem,
+  index,
+  isHint,
+  isSelected,
+  onSelect,
+  onAskDavid,
+  verification,
+  samples,
+}: ProblemCardProps) => {
+  const badge = verification && verificationBadges[verification.status];
+  const agreed = problem.agreement !== undefined && samples > 1 ? Math.round(problem.agreement * samples) : null;
+  // No majority: at most half of the samples gave this answer
+  const isDisputed = agreed !== null && agreed * 2 <= samples;
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      aria-pressed={isSelected}
+      onClick={onSelect}
+      onKeyDown={(e) => {
+        if (e.target === e.currentTarget && (e.key === "Enter" || e.key === " ")) {
+          e.preventDefault();
+          onSelect();
+        }
+      }}
+      className={cn(
+        "rounded-xl border bg-background/50 transition-colors cursor-pointer focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+        isSelected ? "border-primary/70 bg-primary/5" : "border-border/50 hover:border-primary/30",
+      )}
+    >
+      <div className="p-4 pb-3">
+        <div className="flex items-start gap-3 mb-3">
+          <span className="flex items-center justify-center w-7 h-7 rounded-lg bg-primary/10 text-primary text-xs font-display shrink-0">
+            {index + 1}
+          </span>
+          <div className="min-w-0 flex-1">
+            {problem.question && (
+              <p className="text-sm text-foreground mb-2">{problem.question}</p>
+            )}
+            {problem.latex && <MathFormula latex={problem.latex} displayMode className="my-0" />}
+          </div>
+        </div>
+        {isDisputed && (
+          <div className="flex items-start gap-2 mb-3 p-3 rounded-lg border border-yellow-400/40 bg-yellow-400/10 text-sm">
+            <AlertTriangle className="w-4 h-4 text-yellow-400 shrink-0 mt-0.5" />
+            <p className="text-muted-foreground">
+              <span className="text-yellow-400 font-display">The solvers disagreed.</span> Only {agreed} of {samples}{" "}
+              independent solutions gave this answer, so treat it as a guess and check it yourself.
+            </p>
+          </div>
+        )}
+        <div className="prose prose-invert prose-sm max-w-none">
+          <MathMarkdown components={markdownComponents}>
+            {problem.answer}
+          </MathMarkdown>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {!isDisputed && (
+            <span className={`text-xs font-display ${confidenceClass(problem.confidence)}`}>
+              {Math.round(problem.confidence * 100)}% confident
+            </span>
+          )}
+          {agreed !== null && !isDisputed && (
+            <Badge variant="outline" className="font-normal" title="Independent solutions that gave this answer">
+              {agreed}/{samples} agree
+            </Badge>
+          )}
+          {badge && (
+            <Badge variant="outline" className={cn("gap-1 font-normal", badge.className)} title={verification.detail}>
+              {badge.icon}
+              {badge.label}
+            </Badge>
+          )}
+          {problem.annotation && (
+            <Badge variant="outline" className="font-normal border-primary/50 text-primary">
+              Your mark {problem.annotation}
+            </Badge>
+          )}
+          {problem.topics.map((topic) => (
+            <Badge key={topic} variant="secondary" className="font-normal">
+              {topic}
+            </Badge>
+          ))}
+          {onAskDavid && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-auto h-7 gap-1.5 text-xs"
+              onClick={(e) => {
+                e.stopPropagation();
+                onAskDavid();
+              }}
+            >
+              <MessageCircleQuestion className="w-3.5 h-3.5" />
+              Ask David why
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {problem.steps.length > 0 && (
+        <div className="px-4 pb-3" onClick={(e) => e.stopPropagation()}>
+          <p className="text-xs text-muted-foreground mb-1 font-display">
+            {isHint ? "Reveal one hint at a time:" : "Step-by-step walkthrough:"}
+          </p>
+          <Accordion
+            type="multiple"
+            defaultValue={isHint ? [] : problem.steps.map((_, stepIndex) => `step-${stepIndex}`)}
+          >
+            {problem.steps.map((step, stepIndex) => (
+              <AccordionItem key={stepIndex} value={`step-${stepIndex}`} className="border-border/50 last:border-b-0">
+                <AccordionTrigger className="py-3 text-left hover:no-underline">
+                  <span className="flex items-center gap-3">
+                    <span className="flex items-center justify-center w-6 h-6 rounded-full bg-primary/10 text-primary text-xs font-display shrink-0">
+                      {stepIndex + 1}
+                    </span>
+                    <span className="font-display text-sm text-foreground">
+                      {step.title || (isHint ? `Hint ${stepIndex + 1}` : `Step ${stepIndex + 1}`)}
+                    </span>
+                  </span>
+                </AccordionTrigger>
+                <AccordionContent className="pl-9 prose prose-invert prose-sm max-w-none">
+                  <MathMarkdown components={markdownComponents}>{step.content}</MathMarkdown>
+                </AccordionContent>
+              </AccordionItem>
+            ))}
+          </Accordion>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import { Gauge } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useQuota } from "@/hooks/use-quota";
+import { cn } from "@/lib/utils";
+
+const QUOTA_LABELS: Record<string, string> = {
+  "analyze-math": "solves",
+  "analyze-math:transcribe": "reads",
+  "analyze-math:accuracy": "accurate solves",
+  "david-chat": "chats",
+};
+
+export const QuotaIndicator = () => {
+  const { quotas } = useQuota();
+
+  if (quotas.length === 0) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-secondary/50 text-xs font-display cursor-default">
+          <Gauge className="w-3.5 h-3.5 text-primary" />
+          {quotas.map((quota, index) => (
+            <span
+              key={quota.functionName}
+              className={cn(quota.remaining === 0 ? "text-destructive" : "text-muted-foreground")}
+            >
+              {index > 0 && "· "}
+              {quota.remaining} {QUOTA_LABELS[quota.functionName] ?? quota.functionName}
+            </span>
+          ))}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>Remaining today. Limits reset at midnight UTC.</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
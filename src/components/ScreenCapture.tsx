@@ -2,6 +2,7 @@ import { useState, useCallback } from "react";
 import { Monitor, Camera, StopCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { prepareImage } from "@/lib/image-prep";
 
 interface ScreenCaptureProps {
   onCapture: (imageData: string) => void;
@@ -47,26 +48,27 @@ export const ScreenCapture = ({ onCapture, isLoading }: ScreenCaptureProps) => {
 
     const video = document.createElement("video");
     video.srcObject = stream;
-    await video.play();
+    try {
+      await video.play();
 
-    const canvas = document.createElement("canvas");
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    
-    const ctx = canvas.getContext("2d");
-    if (ctx) {
-      ctx.drawImage(video, 0, 0);
-      const imageData = canvas.toDataURL("image/png");
+      const imageData = await prepareImage(video);
       onCapture(imageData);
-      
+
       toast({
         title: "Screen captured!",
         description: "Analyzing the math problem...",
       });
+    } catch (error) {
+      console.error("Error capturing screen:", error);
+      toast({
+        title: "Couldn't capture the screen",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      video.pause();
+      video.srcObject = null;
     }
-
-    video.pause();
-    video.srcObject = null;
   }, [stream, onCapture, toast]);
 
   const stopSharing = useCallback(() => {
@@ -1,18 +1,54 @@
-import { CheckCircle, Copy, Sparkles } from "lucide-react";
+import { useEffect, useState } from "react";
+import { AlertTriangle, CheckCircle, Copy, Sparkles } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { ProblemCard } from "@/components/ProblemCard";
 import { useToast } from "@/hooks/use-toast";
-import ReactMarkdown from "react-markdown";
+import { AnalysisResult, DetectedProblem, SolutionStep, summarizeAnswers } from "@/lib/analysis";
+import { cn } from "@/lib/utils";
+import { Verification, verifyResult } from "@/lib/verify";
 
 interface SolutionDisplayProps {
-  solution: string;
+  result: AnalysisResult;
   capturedImage?: string;
+  onAskDavid?: (problems: DetectedProblem[]) => void;
 }
 
-export const SolutionDisplay = ({ solution, capturedImage }: SolutionDisplayProps) => {
+const formatWalkthrough = (steps: SolutionStep[]) =>
+  steps.map((step, index) => `${index + 1}. ${step.title}\n${step.content}`).join("\n\n");
+
+export const SolutionDisplay = ({ result, capturedImage, onAskDavid }: SolutionDisplayProps) => {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [verifications, setVerifications] = useState<Verification[]>([]);
   const { toast } = useToast();
+  const isHint = result.mode === "hint";
+  const isMulti = result.problems.length > 1;
+
+  useEffect(() => {
+    setSelectedIndex(null);
+  }, [result]);
+
+  useEffect(() => {
+    setVerifications([]);
+    if (isHint) return;
+    let cancelled = false;
+    verifyResult(result).then((checks) => {
+      if (!cancelled) setVerifications(checks);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [result, isHint]);
+
+  const verifiedCount = verifications.filter((check) => check.status === "verified").length;
+  const contradictedCount = verifications.filter((check) => check.status === "contradicted").length;
 
   const copyToClipboard = () => {
-    navigator.clipboard.writeText(solution);
+    const walkthroughs = result.problems
+      .map((problem) => formatWalkthrough(problem.steps))
+      .filter(Boolean)
+      .join("\n\n");
+    const answers = summarizeAnswers(result);
+    navigator.clipboard.writeText(walkthroughs ? `${answers}\n\n${walkthroughs}` : answers);
     toast({
       title: "Copied!",
       description: "Solution copied to clipboard",
@@ -26,7 +62,10 @@ export const SolutionDisplay = ({ solution, capturedImage }: SolutionDisplayProp
           <div className="p-2 rounded-lg bg-primary/10">
             <Sparkles className="w-5 h-5 text-primary" />
           </div>
-          <h3 className="font-display text-lg">Solution</h3>
+          <h3 className="font-display text-lg">{isHint ? "Hints" : "Solution"}</h3>
+          {isMulti && (
+            <span className="text-xs text-muted-foreground">({result.problems.length} problems)</span>
+          )}
         </div>
         <Button
           variant="ghost"
@@ -41,45 +80,78 @@ export const SolutionDisplay = ({ solution, capturedImage }: SolutionDisplayProp
       
       {capturedImage && (
         <div className="p-4 border-b border-border/50 bg-background/50">
-          <p className="text-xs text-muted-foreground mb-2 font-display">Analyzed Image:</p>
-          <img 
-            src={capturedImage} 
-            alt="Captured math problem" 
-            className="max-h-40 object-contain rounded-lg"
-          />
+          <p className="text-xs text-muted-foreground mb-2 font-display">
+            Analyzed Image{isMulti && " · click a problem to locate it"}:
+          </p>
+          <div className="relative inline-block max-w-full overflow-hidden rounded-lg">
+            <img 
+              src={capturedImage} 
+              alt="Captured math problem" 
+              className="block max-h-64 max-w-full object-contain rounded-lg"
+            />
+            {result.problems.map((problem, index) => {
+              const { x, y, width, height } = problem.region;
+              const isSelected = selectedIndex === index;
+              if (!isSelected && !isMulti) return null;
+              return (
+                <div
+                  key={index}
+                  className={cn(
+                    "absolute rounded border-2 pointer-events-none transition-all",
+                    isSelected
+                      ? "border-primary bg-primary/20 shadow-[0_0_0_9999px_hsl(var(--background)/0.5)]"
+                      : "border-primary/30",
+                  )}
+                  style={{
+                    left: `${x * 100}%`,
+                    top: `${y * 100}%`,
+                    width: `${width * 100}%`,
+                    height: `${height * 100}%`,
+                  }}
+                >
+                  <span className="absolute -top-2.5 -left-2.5 flex items-center justify-center w-5 h-5 rounded-full bg-primary text-primary-foreground text-[10px] font-display">
+                    {index + 1}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
         </div>
       )}
       
-      <div className="p-6 prose prose-invert prose-sm max-w-none">
-        <ReactMarkdown
-          components={{
-            h1: ({ children }) => <h1 className="text-xl font-display text-foreground mt-4 mb-2">{children}</h1>,
-            h2: ({ children }) => <h2 className="text-lg font-display text-foreground mt-4 mb-2">{children}</h2>,
-            h3: ({ children }) => <h3 className="text-base font-display text-foreground mt-3 mb-2">{children}</h3>,
-            p: ({ children }) => <p className="text-muted-foreground mb-3 leading-relaxed">{children}</p>,
-            strong: ({ children }) => <strong className="text-primary font-semibold">{children}</strong>,
-            code: ({ children }) => (
-              <code className="bg-secondary px-2 py-1 rounded text-primary font-display text-sm">
-                {children}
-              </code>
-            ),
-            pre: ({ children }) => (
-              <pre className="bg-secondary p-4 rounded-lg overflow-x-auto my-4">
-                {children}
-              </pre>
-            ),
-            ul: ({ children }) => <ul className="list-disc list-inside space-y-1 mb-3">{children}</ul>,
-            ol: ({ children }) => <ol className="list-decimal list-inside space-y-1 mb-3">{children}</ol>,
-            li: ({ children }) => <li className="text-muted-foreground">{children}</li>,
-          }}
-        >
-          {solution}
-        </ReactMarkdown>
+      <div className="p-4 space-y-3">
+        {result.samples !== undefined && result.requested !== undefined && result.samples < result.requested && (
+          <div className="flex items-start gap-2 p-3 rounded-lg border border-yellow-400/40 bg-yellow-400/10 text-sm">
+            <AlertTriangle className="w-4 h-4 text-yellow-400 shrink-0 mt-0.5" />
+            <p className="text-muted-foreground">
+              <span className="text-yellow-400 font-display">Not fully cross-checked.</span> Only {result.samples} of{" "}
+              {result.requested} solvers answered, so accuracy mode had less to compare than usual.
+            </p>
+          </div>
+        )}
+        {result.problems.map((problem, index) => (
+          <ProblemCard
+            key={index}
+            problem={problem}
+            index={index}
+            isHint={isHint}
+            isSelected={selectedIndex === index}
+            onSelect={() => setSelectedIndex((current) => (current === index ? null : index))}
+            onAskDavid={onAskDavid && (() => onAskDavid([problem]))}
+            verification={verifications[index]}
+            samples={result.requested ?? result.samples}
+          />
+        ))}
       </div>
       
       <div className="p-4 border-t border-border/50 bg-primary/5 flex items-center gap-2">
         <CheckCircle className="w-4 h-4 text-primary" />
-        <span className="text-sm text-muted-foreground">Solution generated by AI</span>
+        <span className="text-sm text-muted-foreground">
+          Solution generated by AI
+          {verifications.length > 0 &&
+            ` · ${verifiedCount} of ${verifications.length} checked by the algebra engine`}
+          {contradictedCount > 0 && ` · ${contradictedCount} failed the check`}
+        </span>
       </div>
     </div>
   );
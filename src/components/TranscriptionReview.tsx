@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { RotateCcw, ScanText, Send, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MathFormula } from "@/components/MathFormula";
+
+interface TranscriptionReviewProps {
+  image: string;
+  /** LaTeX as read from the image, one problem per line. */
+  transcription: string;
+  onConfirm: (latex: string) => void;
+  onCancel: () => void;
+}
+
+export const TranscriptionReview = ({ image, transcription, onConfirm, onCancel }: TranscriptionReviewProps) => {
+  const [latex, setLatex] = useState(transcription);
+  const lines = latex.split("\n").filter((line) => line.trim());
+  const isEdited = latex.trim() !== transcription;
+
+  return (
+    <div className="glass rounded-xl overflow-hidden animate-slide-up">
+      <div className="p-4 border-b border-border/50 flex items-center gap-3">
+        <div className="p-2 rounded-lg bg-primary/10">
+          <ScanText className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h3 className="font-display text-lg">Check the problem</h3>
+          <p className="text-xs text-muted-foreground">Fix anything that was misread, then solve.</p>
+        </div>
+      </div>
+
+      <div className="relative bg-secondary/30">
+        <img src={image} alt="Captured problem" className="w-full max-h-[28rem] object-contain" />
+        <div className="absolute inset-x-0 bottom-0 p-3 space-y-2 bg-background/85 backdrop-blur-sm border-t border-border/50">
+          <Textarea
+            value={latex}
+            onChange={(e) => setLatex(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                onConfirm(latex.trim());
+              } else if (e.key === "Escape") {
+                onCancel();
+              }
+            }}
+            placeholder="Nothing was read. Type the problem in LaTeX, or solve from the image alone."
+            className="font-mono text-sm min-h-16"
+            spellCheck={false}
+            autoFocus
+            aria-label="Transcribed problem in LaTeX"
+          />
+          {lines.length > 0 && (
+            <div className="max-h-32 overflow-y-auto">
+              {lines.map((line, index) => (
+                <MathFormula key={index} latex={line} displayMode className="my-0" />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 flex items-center gap-1.5">
+        <Button variant="ghost" size="sm" onClick={onCancel} className="gap-2">
+          <X className="w-4 h-4" />
+          Cancel
+        </Button>
+        {isEdited && (
+          <Button variant="ghost" size="sm" onClick={() => setLatex(transcription)} className="gap-2">
+            <RotateCcw className="w-4 h-4" />
+            Undo edits
+          </Button>
+        )}
+        <Button onClick={() => onConfirm(latex.trim())} className="ml-auto gap-2 glow">
+          <Send className="w-4 h-4" />
+          Solve
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import { RefObject, useCallback, useEffect, useRef } from "react";
+
+const SAMPLE_INTERVAL = 500;
+// How long the screen must hold still after a change before we capture, so we
+// grab the next question once it has finished loading rather than mid-transition.
+const SETTLE_TIME = 1200;
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 36;
+const PIXEL_THRESHOLD = 24;
+
+interface SampleRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface AutoCaptureOptions {
+  videoRef: RefObject<HTMLVideoElement>;
+  /** Part of the frame to watch, in video pixels; the whole frame when null. */
+  region: SampleRegion | null;
+  enabled: boolean;
+  /** 0-100; higher values react to smaller changes. */
+  sensitivity: number;
+  isLoading: boolean;
+  onCapture: () => void;
+}
+
+// Fraction of the watched area that must differ from the last capture.
+const changeThreshold = (sensitivity: number) => 0.005 + 0.25 * (1 - sensitivity / 100);
+
+const diffRatio = (a: Uint8ClampedArray, b: Uint8ClampedArray) => {
+  let changed = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (Math.abs(a[i] - b[i]) > PIXEL_THRESHOLD) changed++;
+  }
+  return changed / a.length;
+};
+
+/**
+ * Samples a small grayscale thumbnail of the video every half second and calls
+ * `onCapture` once the watched region has changed meaningfully since the last
+ * capture and then settled. Never fires while `isLoading` is true.
+ */
+export function useAutoCapture({ videoRef, region, enabled, sensitivity, isLoading, onCapture }: AutoCaptureOptions) {
+  const baselineRef = useRef<Uint8ClampedArray | null>(null);
+  const previousRef = useRef<Uint8ClampedArray | null>(null);
+  const stableSinceRef = useRef<number | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  // Read through refs so a new solve or callback doesn't restart the sampler.
+  const isLoadingRef = useRef(isLoading);
+  const onCaptureRef = useRef(onCapture);
+  useEffect(() => {
+    isLoadingRef.current = isLoading;
+    onCaptureRef.current = onCapture;
+  }, [isLoading, onCapture]);
+
+  const sample = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return null;
+
+    if (!canvasRef.current) {
+      canvasRef.current = document.createElement("canvas");
+      canvasRef.current.width = SAMPLE_WIDTH;
+      canvasRef.current.height = SAMPLE_HEIGHT;
+    }
+    const ctx = canvasRef.current.getContext("2d", { willReadFrequently: true });
+    if (!ctx) return null;
+
+    const { x, y, width, height } = region ?? { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight };
+    ctx.drawImage(video, x, y, width, height, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+
+    const gray = new Uint8ClampedArray(SAMPLE_WIDTH * SAMPLE_HEIGHT);
+    for (let i = 0; i < gray.length; i++) {
+      gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+    }
+    return gray;
+  }, [videoRef, region]);
+
+  /** Treat the current frame as already captured, e.g. after a manual capture. */
+  const resetBaseline = useCallback(() => {
+    baselineRef.current = sample();
+    stableSinceRef.current = null;
+  }, [sample]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    resetBaseline();
+    previousRef.current = baselineRef.current;
+    const threshold = changeThreshold(sensitivity);
+
+    const interval = window.setInterval(() => {
+      const current = sample();
+      if (!current) return;
+
+      const previous = previousRef.current;
+      previousRef.current = current;
+      if (!baselineRef.current) {
+        baselineRef.current = current;
+        return;
+      }
+
+      const isStable = previous ? diffRatio(current, previous) < threshold / 2 : false;
+      if (!isStable) {
+        stableSinceRef.current = null;
+        return;
+      }
+      stableSinceRef.current ??= Date.now();
+
+      const hasChanged = diffRatio(current, baselineRef.current) >= threshold;
+      if (
+        hasChanged &&
+        !isLoadingRef.current &&
+        Date.now() - stableSinceRef.current >= SETTLE_TIME
+      ) {
+        baselineRef.current = current;
+        stableSinceRef.current = null;
+        onCaptureRef.current();
+      }
+    }, SAMPLE_INTERVAL);
+
+    return () => window.clearInterval(interval);
+  }, [enabled, sensitivity, sample, resetBaseline]);
+
+  return { resetBaseline };
+}
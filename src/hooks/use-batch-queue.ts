@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useSolveHistory } from "@/hooks/use-solve-history";
+import { useQuota } from "@/hooks/use-quota";
+import { AnalysisResult, SolveMode } from "@/lib/analysis";
+import { readAsDataUrl } from "@/lib/clipboard";
+import { FunctionError, isQuotaExhausted } from "@/lib/functions";
+import { idbDelete, idbGetAll, idbPut } from "@/lib/idb";
+import { prepareImage } from "@/lib/image-prep";
+import { solveImage } from "@/lib/solve";
+
+const CONCURRENCY = 2;
+const MAX_RETRIES = 3;
+const BASE_BACKOFF = 2000;
+
+export type QueueStatus = "queued" | "solving" | "done" | "failed";
+
+export interface QueueItem {
+  id: string;
+  /** Owner of the capture; items of other accounts on this browser are never loaded. */
+  userId: string;
+  name: string;
+  image: string;
+  mode: SolveMode;
+  accuracy?: boolean;
+  status: QueueStatus;
+  attempts: number;
+  /** Earliest time a rate-limited item may be tried again. */
+  retryAt?: number;
+  error?: string;
+  result?: AnalysisResult;
+  createdAt: number;
+}
+
+/**
+ * A persistent queue of images to solve, worked through CONCURRENCY at a time.
+ * Rate-limited (429) items are retried with exponential backoff, but not once
+ * the daily quota is spent. Items survive a reload in IndexedDB, per user, and
+ * anything that was mid-solve is queued again.
+ */
+export function useBatchQueue() {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const itemsRef = useRef<QueueItem[]>([]);
+  const activeRef = useRef(new Set<string>());
+  const wakeTimerRef = useRef<number>();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const { saveSolve } = useSolveHistory();
+  const { refresh: refreshQuota } = useQuota();
+
+  const commit = useCallback((next: QueueItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  }, []);
+
+  const updateItem = useCallback((id: string, changes: Partial<QueueItem>) => {
+    const current = itemsRef.current.find((item) => item.id === id);
+    if (!current) return;
+    const updated = { ...current, ...changes };
+    commit(itemsRef.current.map((item) => (item.id === id ? updated : item)));
+    idbPut("batchQueue", updated).catch((error) => console.error("Error saving queue item:", error));
+  }, [commit]);
+
+  useEffect(() => {
+    // Whatever belonged to the previous account leaves with it
+    commit(itemsRef.current.filter((item) => item.userId === userId));
+    if (!userId) return;
+
+    let cancelled = false;
+    idbGetAll<QueueItem>("batchQueue")
+      .then((stored) => {
+        if (cancelled) return;
+        const restored = stored
+          .filter((item) => item.userId === userId && !itemsRef.current.some((current) => current.id === item.id))
+          .sort((a, b) => a.createdAt - b.createdAt)
+          .map((item) => (item.status === "solving" ? { ...item, status: "queued" as const } : item));
+        commit([...restored, ...itemsRef.current]);
+      })
+      .catch((error) => console.error("Error loading batch queue:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [commit, userId]);
+
+  const process = useCallback(async (item: QueueItem) => {
+    activeRef.current.add(item.id);
+    updateItem(item.id, { status: "solving", error: undefined });
+
+    let changes: Partial<QueueItem>;
+    try {
+      const result = await solveImage(item.image, item.mode, { accuracy: item.accuracy });
+      changes = { status: "done", result, retryAt: undefined };
+      // Skipped when the student signed out while this was solving
+      if (itemsRef.current.some((current) => current.id === item.id)) {
+        saveSolve({ image: item.image, result }).catch((error) => {
+          console.error("Error saving batch solve:", error);
+        });
+      }
+    } catch (error) {
+      const attempts = item.attempts + 1;
+      const isRateLimited = error instanceof FunctionError && error.status === 429 && !isQuotaExhausted(error);
+      changes = isRateLimited && attempts <= MAX_RETRIES
+        ? {
+            status: "queued",
+            attempts,
+            retryAt: Date.now() + BASE_BACKOFF * 2 ** (attempts - 1),
+            error: "Rate limited, retrying shortly",
+          }
+        : {
+            status: "failed",
+            attempts,
+            error: error instanceof Error ? error.message : "Something went wrong",
+          };
+    }
+
+    activeRef.current.delete(item.id);
+    updateItem(item.id, changes);
+    refreshQuota();
+  }, [updateItem, saveSolve, refreshQuota]);
+
+  // Start whatever is ready whenever the queue changes, and wake up again
+  // for the next backed-off retry.
+  useEffect(() => {
+    window.clearTimeout(wakeTimerRef.current);
+    const now = Date.now();
+    const queued = items.filter((item) => item.status === "queued" && !activeRef.current.has(item.id));
+    const ready = queued.filter((item) => (item.retryAt ?? 0) <= now);
+    ready.slice(0, Math.max(0, CONCURRENCY - activeRef.current.size)).forEach(process);
+
+    const nextRetry = Math.min(...queued.map((item) => item.retryAt ?? Infinity).filter((at) => at > now));
+    if (Number.isFinite(nextRetry)) {
+      wakeTimerRef.current = window.setTimeout(() => commit([...itemsRef.current]), nextRetry - now);
+    }
+    return () => window.clearTimeout(wakeTimerRef.current);
+  }, [items, process, commit]);
+
+  const addFiles = useCallback(async (files: File[], mode: SolveMode, accuracy = false) => {
+    if (!userId) throw new Error("Sign in to queue images");
+    const added = await Promise.all(
+      files.map(async (file, index): Promise<QueueItem> => ({
+        id: crypto.randomUUID(),
+        userId,
+        name: file.name,
+        image: await prepareImage(await readAsDataUrl(file)),
+        mode,
+        accuracy,
+        status: "queued",
+        attempts: 0,
+        createdAt: Date.now() + index,
+      })),
+    );
+    commit([...itemsRef.current, ...added]);
+    await Promise.all(added.map((item) => idbPut("batchQueue", item)));
+  }, [commit, userId]);
+
+  const retry = useCallback((id: string) => {
+    updateItem(id, { status: "queued", attempts: 0, retryAt: undefined, error: undefined });
+  }, [updateItem]);
+
+  const remove = useCallback((id: string) => {
+    commit(itemsRef.current.filter((item) => item.id !== id));
+    idbDelete("batchQueue", id).catch((error) => console.error("Error removing queue item:", error));
+  }, [commit]);
+
+  const clearFinished = useCallback(() => {
+    const finished = itemsRef.current.filter((item) => item.status === "done");
+    commit(itemsRef.current.filter((item) => item.status !== "done"));
+    finished.forEach((item) => idbDelete("batchQueue", item.id));
+  }, [commit]);
+
+  return { items, addFiles, retry, remove, clearFinished };
+}
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  ChatMessage,
+  ChatThread,
+  createSupabaseThreadStore,
+  titleFromMessage,
+} from "@/lib/chat-threads";
+
+const activeThreadKey = (userId: string) => `mathmate:active-thread:${userId}`;
+
+/**
+ * David's conversation threads and the messages of the active one. Threads are
+ * created lazily when the first message of a new conversation is saved.
+ */
+export function useChatThreads() {
+  const { user } = useAuth();
+  const store = useMemo(() => (user ? createSupabaseThreadStore(user.id) : null), [user]);
+  const storageKey = user ? activeThreadKey(user.id) : null;
+
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [isLoadingThread, setIsLoadingThread] = useState(false);
+  // A thread we just created already has its messages in state; don't reload it.
+  const skipLoadRef = useRef<string | null>(null);
+
+  // The chat sits behind sign-in, so the store is only missing while auth loads
+  const requireStore = useCallback(() => {
+    if (!store) throw new Error("Sign in to chat with David");
+    return store;
+  }, [store]);
+
+  const refreshThreads = useCallback(async () => {
+    const list = store ? await store.listThreads() : [];
+    setThreads(list);
+    return list;
+  }, [store]);
+
+  useEffect(() => {
+    let cancelled = false;
+    refreshThreads()
+      .then((list) => {
+        if (cancelled || !storageKey) return;
+        const savedId = localStorage.getItem(storageKey);
+        setActiveThreadId(list.some((thread) => thread.id === savedId) ? savedId : null);
+      })
+      .catch((error) => console.error("Error loading chat threads:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshThreads, storageKey]);
+
+  useEffect(() => {
+    if (!storageKey) return;
+    if (activeThreadId) {
+      localStorage.setItem(storageKey, activeThreadId);
+    } else {
+      localStorage.removeItem(storageKey);
+    }
+  }, [activeThreadId, storageKey]);
+
+  useEffect(() => {
+    if (!activeThreadId || !store) {
+      setMessages([]);
+      return;
+    }
+    if (skipLoadRef.current === activeThreadId) {
+      skipLoadRef.current = null;
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingThread(true);
+    store
+      .loadMessages(activeThreadId)
+      .then((loaded) => !cancelled && setMessages(loaded))
+      .catch((error) => console.error("Error loading chat messages:", error))
+      .finally(() => !cancelled && setIsLoadingThread(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeThreadId, store]);
+
+  /**
+   * Returns the active thread's id, creating a thread titled after
+   * `firstMessage` if there is none or `fresh` is set.
+   */
+  const ensureThread = useCallback(async (firstMessage: ChatMessage, { fresh = false } = {}) => {
+    if (activeThreadId && !fresh) return activeThreadId;
+    const thread = await requireStore().createThread(titleFromMessage(firstMessage.content));
+    skipLoadRef.current = thread.id;
+    setActiveThreadId(thread.id);
+    setThreads((prev) => [thread, ...prev]);
+    return thread.id;
+  }, [activeThreadId, requireStore]);
+
+  const saveMessage = useCallback(async (threadId: string, message: ChatMessage) => {
+    await requireStore().appendMessage(threadId, message);
+    await refreshThreads();
+  }, [requireStore, refreshThreads]);
+
+  const renameThread = useCallback(async (threadId: string, title: string) => {
+    await requireStore().renameThread(threadId, title);
+    await refreshThreads();
+  }, [requireStore, refreshThreads]);
+
+  const deleteThread = useCallback(async (threadId: string) => {
+    await requireStore().deleteThread(threadId);
+    if (threadId === activeThreadId) {
+      setActiveThreadId(null);
+    }
+    await refreshThreads();
+  }, [requireStore, activeThreadId, refreshThreads]);
+
+  return {
+    threads,
+    activeThreadId,
+    activeThread: threads.find((thread) => thread.id === activeThreadId) ?? null,
+    messages,
+    setMessages,
+    isLoadingThread,
+    selectThread: setActiveThreadId,
+    startNewThread: () => setActiveThreadId(null),
+    ensureThread,
+    saveMessage,
+    renameThread,
+    deleteThread,
+  };
+}
@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+import { getImagePrepState, ImagePrepState, subscribeImagePrep, updateImagePrepSettings } from "@/lib/image-prep";
+
+/** Current image-prep settings and the stats of the most recent prepared image. */
+export function useImagePrep() {
+  const [state, setState] = useState<ImagePrepState>(getImagePrepState);
+
+  useEffect(() => subscribeImagePrep(setState), []);
+
+  return {
+    ...state,
+    updateSettings: updateImagePrepSettings,
+  };
+}
@@ -0,0 +1,40 @@
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface FunctionQuota {
+  functionName: string;
+  dailyLimit: number;
+  used: number;
+  remaining: number;
+}
+
+/** Today's usage against the per-user daily limits enforced by the edge functions. */
+export function useQuota() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["quota", user?.id];
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async (): Promise<FunctionQuota[]> => {
+      const { data, error } = await supabase.rpc("get_quota_status");
+      if (error) throw error;
+      return data.map((row) => ({
+        functionName: row.function_name,
+        dailyLimit: row.daily_limit,
+        used: row.used,
+        remaining: row.remaining,
+      }));
+    },
+    enabled: !!user,
+  });
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: ["quota", user?.id] }),
+    [queryClient, user?.id],
+  );
+
+  return { quotas: query.data ?? [], refresh };
+}
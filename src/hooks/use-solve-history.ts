@@ -0,0 +1,211 @@
+import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { AnalysisResult, analysisResultSchema, HistoryItem } from "@/lib/analysis";
+
+const PAGE_SIZE = 20;
+const CAPTURES_BUCKET = "captures";
+const SIGNED_URL_TTL = 60 * 60;
+const PATH_PAGE_SIZE = 1000;
+
+type SolveRow = Tables<"solves"> & {
+  worksheets: Pick<Tables<"worksheets">, "title" | "page_count"> | null;
+};
+
+interface SolvePage {
+  items: HistoryItem[];
+  total: number;
+  nextPage: number | null;
+}
+
+const toHistoryItems = async (rows: SolveRow[]): Promise<HistoryItem[]> => {
+  if (rows.length === 0) return [];
+
+  // Typed problems have no capture to sign
+  const paths = rows.flatMap((row) => (row.image_path ? [row.image_path] : []));
+  const urls = new Map<string, string>();
+  if (paths.length > 0) {
+    const { data, error } = await supabase.storage.from(CAPTURES_BUCKET).createSignedUrls(paths, SIGNED_URL_TTL);
+    if (error) throw error;
+    data.forEach(({ path, signedUrl }) => path && urls.set(path, signedUrl));
+  }
+
+  return rows.flatMap((row) => {
+    const parsed = analysisResultSchema.safeParse(row.result);
+    if (!parsed.success) {
+      console.warn("Skipping solve with unreadable result:", row.id, parsed.error);
+      return [];
+    }
+    return [{
+      id: row.id,
+      image: row.image_path ? urls.get(row.image_path) ?? "" : undefined,
+      text: row.problem_text ?? undefined,
+      transcription: row.transcription ?? undefined,
+      result: parsed.data,
+      timestamp: new Date(row.created_at),
+      worksheet: row.worksheet_id && row.worksheets
+        ? {
+            id: row.worksheet_id,
+            title: row.worksheets.title,
+            page: row.page_number ?? 1,
+            pageCount: row.worksheets.page_count,
+          }
+        : undefined,
+    }];
+  });
+};
+
+const fetchSolvePage = async (page: number): Promise<SolvePage> => {
+  const from = page * PAGE_SIZE;
+  const { data, count, error } = await supabase
+    .from("solves")
+    .select("*, worksheets(title, page_count)", { count: "exact" })
+    .order("created_at", { ascending: false })
+    .range(from, from + PAGE_SIZE - 1);
+  if (error) throw error;
+
+  const total = count ?? 0;
+  return {
+    items: await toHistoryItems(data),
+    total,
+    nextPage: from + data.length < total ? page + 1 : null,
+  };
+};
+
+/** A solve to store: from a captured `image`, typed `text`, or both. */
+interface NewSolve {
+  image?: string;
+  text?: string;
+  /** The capture's transcription as first read, when the student reviewed it. */
+  transcription?: string;
+  result: AnalysisResult;
+  worksheet?: { id: string; page: number };
+}
+
+const uploadCapture = async (userId: string, image: string) => {
+  const blob = await (await fetch(image)).blob();
+  const extension = blob.type.split("/")[1] ?? "png";
+  const imagePath = `${userId}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(CAPTURES_BUCKET)
+    .upload(imagePath, blob, { contentType: blob.type });
+  if (error) throw error;
+  return imagePath;
+};
+
+const saveSolve = async (userId: string, { image, text, transcription, result, worksheet }: NewSolve) => {
+  const imagePath = image ? await uploadCapture(userId, image) : null;
+
+  const { data, error } = await supabase
+    .from("solves")
+    .insert({
+      image_path: imagePath,
+      problem_text: text ?? null,
+      transcription: transcription ?? null,
+      mode: result.mode,
+      result: result as unknown as Json,
+      worksheet_id: worksheet?.id ?? null,
+      page_number: worksheet?.page ?? null,
+    })
+    .select()
+    .single();
+  if (error) {
+    if (imagePath) await supabase.storage.from(CAPTURES_BUCKET).remove([imagePath]);
+    throw error;
+  }
+  return data;
+};
+
+const createWorksheet = async ({ title, pageCount }: { title: string; pageCount: number }) => {
+  const { data, error } = await supabase
+    .from("worksheets")
+    .insert({ title, page_count: pageCount })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return data.id;
+};
+
+// Paged, since a single select stops at the API's row limit and captures past
+// it would be left in storage
+const fetchImagePaths = async () => {
+  const paths: string[] = [];
+  for (let from = 0; ; from += PATH_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("solves")
+      .select("image_path")
+      .not("image_path", "is", null)
+      .order("id")
+      .range(from, from + PATH_PAGE_SIZE - 1);
+    if (error) throw error;
+    paths.push(...data.flatMap((row) => (row.image_path ? [row.image_path] : [])));
+    if (data.length < PATH_PAGE_SIZE) return paths;
+  }
+};
+
+const clearSolves = async (userId: string) => {
+  const paths = await fetchImagePaths();
+
+  const { error: deleteError } = await supabase.from("solves").delete().eq("user_id", userId);
+  if (deleteError) throw deleteError;
+  const { error: worksheetError } = await supabase.from("worksheets").delete().eq("user_id", userId);
+  if (worksheetError) throw worksheetError;
+
+  for (let start = 0; start < paths.length; start += PATH_PAGE_SIZE) {
+    const { error: removeError } = await supabase.storage
+      .from(CAPTURES_BUCKET)
+      .remove(paths.slice(start, start + PATH_PAGE_SIZE));
+    if (removeError) console.warn("Failed to remove capture images:", removeError);
+  }
+};
+
+const requireUser = (userId: string | undefined) => {
+  if (!userId) throw new Error("Sign in to save your history");
+  return userId;
+};
+
+/** Server-backed solve history for the signed-in user, paged newest first. */
+export function useSolveHistory() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["solves", user?.id];
+
+  const query = useInfiniteQuery({
+    queryKey,
+    queryFn: ({ pageParam }) => fetchSolvePage(pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => lastPage.nextPage,
+    enabled: !!user,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey });
+
+  const save = useMutation({
+    mutationFn: (solve: NewSolve) => saveSolve(requireUser(user?.id), solve),
+    onSuccess: invalidate,
+  });
+  const worksheet = useMutation({
+    mutationFn: (details: { title: string; pageCount: number }) => {
+      requireUser(user?.id);
+      return createWorksheet(details);
+    },
+  });
+  const clear = useMutation({
+    mutationFn: () => clearSolves(requireUser(user?.id)),
+    onSuccess: invalidate,
+  });
+
+  return {
+    history: query.data?.pages.flatMap((page) => page.items) ?? [],
+    total: query.data?.pages[0]?.total ?? 0,
+    isLoading: query.isLoading,
+    hasMore: query.hasNextPage,
+    isLoadingMore: query.isFetchingNextPage,
+    loadMore: query.fetchNextPage,
+    saveSolve: save.mutateAsync,
+    createWorksheet: worksheet.mutateAsync,
+    clearHistory: clear.mutateAsync,
+  };
+}
@@ -14,13 +14,231 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      chat_messages: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          image_path: string | null
+          role: string
+          thread_id: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          image_path?: string | null
+          role: string
+          thread_id: string
+          user_id?: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          image_path?: string | null
+          role?: string
+          thread_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "chat_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_threads: {
+        Row: {
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      daily_usage: {
+        Row: {
+          function_name: string
+          request_count: number
+          usage_date: string
+          user_id: string
+        }
+        Insert: {
+          function_name: string
+          request_count?: number
+          usage_date?: string
+          user_id: string
+        }
+        Update: {
+          function_name?: string
+          request_count?: number
+          usage_date?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "daily_usage_function_name_fkey"
+            columns: ["function_name"]
+            isOneToOne: false
+            referencedRelation: "function_quotas"
+            referencedColumns: ["function_name"]
+          },
+        ]
+      }
+      function_quotas: {
+        Row: {
+          daily_limit: number
+          function_name: string
+        }
+        Insert: {
+          daily_limit: number
+          function_name: string
+        }
+        Update: {
+          daily_limit?: number
+          function_name?: string
+        }
+        Relationships: []
+      }
+      solves: {
+        Row: {
+          created_at: string
+          id: string
+          image_path: string | null
+          mode: string
+          page_number: number | null
+          problem_text: string | null
+          result: Json
+          transcription: string | null
+          user_id: string
+          worksheet_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          image_path?: string | null
+          mode?: string
+          page_number?: number | null
+          problem_text?: string | null
+          result: Json
+          transcription?: string | null
+          user_id?: string
+          worksheet_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          image_path?: string | null
+          mode?: string
+          page_number?: number | null
+          problem_text?: string | null
+          result?: Json
+          transcription?: string | null
+          user_id?: string
+          worksheet_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "solves_worksheet_id_fkey"
+            columns: ["worksheet_id"]
+            isOneToOne: false
+            referencedRelation: "worksheets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_quotas: {
+        Row: {
+          daily_limit: number
+          function_name: string
+          user_id: string
+        }
+        Insert: {
+          daily_limit: number
+          function_name: string
+          user_id: string
+        }
+        Update: {
+          daily_limit?: number
+          function_name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_quotas_function_name_fkey"
+            columns: ["function_name"]
+            isOneToOne: false
+            referencedRelation: "function_quotas"
+            referencedColumns: ["function_name"]
+          },
+        ]
+      }
+      worksheets: {
+        Row: {
+          created_at: string
+          id: string
+          page_count: number
+          title: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          page_count: number
+          title: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          page_count?: number
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      consume_quota: {
+        Args: { _function_name: string }
+        Returns: {
+          allowed: boolean
+          daily_limit: number
+          remaining: number
+        }[]
+      }
+      get_quota_status: {
+        Args: never
+        Returns: {
+          daily_limit: number
+          function_name: string
+          remaining: number
+          used: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
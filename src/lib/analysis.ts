@@ -0,0 +1,47 @@
+import type { AnalysisResult, SolveMode } from "@shared/analysis";
+
+export {
+  analysisResultSchema,
+  type AnalysisResult,
+  type Annotation,
+  type AnnotationTool,
+  type DetectedProblem,
+  type ProblemRegion,
+  type RejectedAnswer,
+  type SolutionStep,
+  type SolveMode,
+  transcriptionSchema,
+} from "@shared/analysis";
+
+export interface HistoryItem {
+  id: string;
+  /** The capture, absent for typed problems. */
+  image?: string;
+  /** LaTeX that was solved: typed by the student, or their reviewed transcription of the capture. */
+  text?: string;
+  /** What was first read from the capture, before the student's corrections. */
+  transcription?: string;
+  result: AnalysisResult;
+  timestamp: Date;
+  /** Set when the solve is one page of an uploaded PDF worksheet. */
+  worksheet?: WorksheetPage;
+}
+
+export interface WorksheetPage {
+  id: string;
+  title: string;
+  page: number;
+  pageCount: number;
+}
+
+export const SOLVE_MODES: { value: SolveMode; label: string; description: string }[] = [
+  { value: "answer", label: "Answer", description: "Just the final answer" },
+  { value: "steps", label: "Steps", description: "Full worked solution" },
+  { value: "hint", label: "Hints", description: "Nudges without the answer" },
+];
+
+/** Plain-text list of every answer in a result, for copy and list previews. */
+export const summarizeAnswers = (result: AnalysisResult) =>
+  result.problems
+    .map((problem, index) => (result.problems.length > 1 ? `${index + 1}. ${problem.answer}` : problem.answer))
+    .join("\n");
@@ -0,0 +1,126 @@
+import { supabase } from "@/integrations/supabase/client";
+
+const CHAT_IMAGES_BUCKET = "chat-images";
+const SIGNED_URL_TTL = 60 * 60;
+const TITLE_LENGTH = 40;
+
+export interface ChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  /** Data URL for new messages; a signed URL when loaded back from Supabase. */
+  image?: string;
+  /** Storage path of a saved image; david-chat signs it again, since `image` expires. */
+  imagePath?: string;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  updatedAt: Date;
+}
+
+/** Where a signed-in student's conversations live. */
+export interface ThreadStore {
+  listThreads: () => Promise<ChatThread[]>;
+  createThread: (title: string) => Promise<ChatThread>;
+  renameThread: (threadId: string, title: string) => Promise<void>;
+  deleteThread: (threadId: string) => Promise<void>;
+  loadMessages: (threadId: string) => Promise<ChatMessage[]>;
+  appendMessage: (threadId: string, message: ChatMessage) => Promise<void>;
+}
+
+export const titleFromMessage = (content: string) => {
+  const text = content.replace(/\s+/g, " ").trim();
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text || "New conversation";
+};
+
+export const createSupabaseThreadStore = (userId: string): ThreadStore => ({
+  async listThreads() {
+    const { data, error } = await supabase
+      .from("chat_threads")
+      .select("id, title, updated_at")
+      .order("updated_at", { ascending: false });
+    if (error) throw error;
+    return data.map((row) => ({ id: row.id, title: row.title, updatedAt: new Date(row.updated_at) }));
+  },
+
+  async createThread(title) {
+    const { data, error } = await supabase
+      .from("chat_threads")
+      .insert({ title })
+      .select("id, title, updated_at")
+      .single();
+    if (error) throw error;
+    return { id: data.id, title: data.title, updatedAt: new Date(data.updated_at) };
+  },
+
+  async renameThread(threadId, title) {
+    const { error } = await supabase.from("chat_threads").update({ title }).eq("id", threadId);
+    if (error) throw error;
+  },
+
+  async deleteThread(threadId) {
+    const { data: images } = await supabase
+      .from("chat_messages")
+      .select("image_path")
+      .eq("thread_id", threadId)
+      .not("image_path", "is", null);
+
+    const { error } = await supabase.from("chat_threads").delete().eq("id", threadId);
+    if (error) throw error;
+
+    const paths = (images ?? []).map((row) => row.image_path).filter(Boolean) as string[];
+    if (paths.length > 0) {
+      await supabase.storage.from(CHAT_IMAGES_BUCKET).remove(paths);
+    }
+  },
+
+  async loadMessages(threadId) {
+    const { data, error } = await supabase
+      .from("chat_messages")
+      .select("id, role, content, image_path")
+      .eq("thread_id", threadId)
+      .order("created_at", { ascending: true });
+    if (error) throw error;
+
+    const paths = data.map((row) => row.image_path).filter(Boolean) as string[];
+    const signedUrls = new Map<string, string>();
+    if (paths.length > 0) {
+      const { data: urls, error: urlError } = await supabase.storage
+        .from(CHAT_IMAGES_BUCKET)
+        .createSignedUrls(paths, SIGNED_URL_TTL);
+      if (urlError) throw urlError;
+      urls.forEach((url) => url.path && signedUrls.set(url.path, url.signedUrl));
+    }
+
+    return data.map((row) => ({
+      id: row.id,
+      role: row.role as ChatMessage["role"],
+      content: row.content,
+      image: row.image_path ? signedUrls.get(row.image_path) : undefined,
+      imagePath: row.image_path ?? undefined,
+    }));
+  },
+
+  async appendMessage(threadId, message) {
+    let imagePath: string | null = null;
+    if (message.image) {
+      const blob = await (await fetch(message.image)).blob();
+      const extension = blob.type.split("/")[1] ?? "png";
+      imagePath = `${userId}/${threadId}/${crypto.randomUUID()}.${extension}`;
+      const { error: uploadError } = await supabase.storage
+        .from(CHAT_IMAGES_BUCKET)
+        .upload(imagePath, blob, { contentType: blob.type });
+      if (uploadError) throw uploadError;
+    }
+
+    const { error } = await supabase.from("chat_messages").insert({
+      thread_id: threadId,
+      role: message.role,
+      content: message.content,
+      image_path: imagePath,
+    });
+    if (error) throw error;
+  },
+});
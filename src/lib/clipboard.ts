@@ -0,0 +1,54 @@
+const IMAGE_URL = /^https?:\/\/\S+\.(png|jpe?g|gif|webp|bmp|svg)(\?\S*)?$/i;
+const IMG_SRC = /<img[^>]+src=["']([^"']+)["']/i;
+
+/** An image found on the clipboard: a file to read, or a link to fetch. */
+export type ClipboardImage = { blob: Blob } | { url: string };
+
+export const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const isImageUrl = (text: string) => text.startsWith("data:image/") || IMAGE_URL.test(text);
+
+/**
+ * Finds an image in a paste event's clipboard data. Must be called while the
+ * event is dispatching; browsers empty `clipboardData` once the handler returns.
+ */
+export function getClipboardImage(data: DataTransfer): ClipboardImage | null {
+  const file = Array.from(data.files).find((item) => item.type.startsWith("image/"));
+  if (file) return { blob: file };
+
+  const text = (data.getData("text/uri-list") || data.getData("text/plain")).trim();
+  if (text && isImageUrl(text)) return { url: text };
+
+  // "Copy image" in some browsers only provides HTML; ignore it when there is
+  // text as well so pasting a paragraph that contains a picture still pastes text.
+  const src = data.getData("text/html").match(IMG_SRC)?.[1];
+  if (!text && src && isImageUrl(src)) return { url: src };
+
+  return null;
+}
+
+/** Resolves a clipboard image to a data URL, downloading linked images. */
+export async function loadClipboardImage(image: ClipboardImage) {
+  if ("blob" in image) return readAsDataUrl(image.blob);
+  if (image.url.startsWith("data:")) return image.url;
+
+  const response = await fetch(image.url).catch(() => null);
+  if (!response?.ok) {
+    throw new Error("Couldn't download that image link. Try copying the image itself instead.");
+  }
+  const blob = await response.blob();
+  if (!blob.type.startsWith("image/")) {
+    throw new Error("That link doesn't point to an image.");
+  }
+  return readAsDataUrl(blob);
+}
+
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.tagName === "INPUT" || target.tagName === "TEXTAREA");
@@ -0,0 +1,126 @@
+import type { AnnotationTool } from "@/lib/analysis";
+
+export type DrawingTool = AnnotationTool;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * One stroke on the live preview, in display coordinates. Freehand tools keep
+ * every point; rectangles and arrows only their start and end.
+ */
+export interface DrawingPath {
+  tool: DrawingTool;
+  color: string;
+  width: number;
+  points: Point[];
+}
+
+export const PEN_COLORS = ["#00d4ff", "#ff4d4f", "#52c41a", "#fadb14", "#ffffff"];
+
+export const TOOL_WIDTHS: Record<DrawingTool, number> = {
+  pen: 3,
+  highlighter: 18,
+  rectangle: 3,
+  arrow: 3,
+};
+
+const HIGHLIGHTER_ALPHA = 0.35;
+const ARROWHEAD_BOX = 80;
+const LABEL_RADIUS = 11;
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const isShapeTool = (tool: DrawingTool) => tool === "rectangle" || tool === "arrow";
+
+/**
+ * Renders a stroke onto `ctx`, scaling from display to target coordinates so
+ * the same paths can be drawn on the overlay and burned into the capture.
+ */
+export function drawPath(ctx: CanvasRenderingContext2D, path: DrawingPath, scaleX = 1, scaleY = 1) {
+  const points = path.points.map((point) => ({ x: point.x * scaleX, y: point.y * scaleY }));
+  if (points.length < 2) return;
+
+  ctx.save();
+  ctx.strokeStyle = path.color;
+  ctx.lineWidth = path.width * ((scaleX + scaleY) / 2);
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  if (path.tool === "highlighter") {
+    ctx.globalAlpha = HIGHLIGHTER_ALPHA;
+  }
+
+  ctx.beginPath();
+  const start = points[0];
+  const end = points[points.length - 1];
+  switch (path.tool) {
+    case "rectangle":
+      ctx.rect(start.x, start.y, end.x - start.x, end.y - start.y);
+      break;
+    case "arrow": {
+      const angle = Math.atan2(end.y - start.y, end.x - start.x);
+      const head = Math.max(12, ctx.lineWidth * 4);
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.moveTo(end.x - head * Math.cos(angle - Math.PI / 6), end.y - head * Math.sin(angle - Math.PI / 6));
+      ctx.lineTo(end.x, end.y);
+      ctx.lineTo(end.x - head * Math.cos(angle + Math.PI / 6), end.y - head * Math.sin(angle + Math.PI / 6));
+      break;
+    }
+    default:
+      ctx.moveTo(start.x, start.y);
+      for (let i = 1; i < points.length; i++) {
+        ctx.lineTo(points[i].x, points[i].y);
+      }
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Bounding box of a stroke after scaling. Arrows point *at* something, so their
+ * bounds are a box around the arrowhead rather than the whole shaft.
+ */
+export function pathBounds(path: DrawingPath, scaleX = 1, scaleY = 1): Bounds {
+  if (path.tool === "arrow") {
+    const tip = path.points[path.points.length - 1];
+    const half = (ARROWHEAD_BOX / 2) * ((scaleX + scaleY) / 2);
+    return { x: tip.x * scaleX - half, y: tip.y * scaleY - half, width: half * 2, height: half * 2 };
+  }
+
+  const xs = path.points.map((point) => point.x * scaleX);
+  const ys = path.points.map((point) => point.y * scaleY);
+  const pad = (path.width / 2) * ((scaleX + scaleY) / 2);
+  const x = Math.min(...xs) - pad;
+  const y = Math.min(...ys) - pad;
+  return { x, y, width: Math.max(...xs) + pad - x, height: Math.max(...ys) + pad - y };
+}
+
+/** Draws a numbered badge for a mark, kept inside `area` so cropping can't cut it off. */
+export function drawLabel(ctx: CanvasRenderingContext2D, label: string, at: Point, color: string, area: Bounds, scale = 1) {
+  const radius = LABEL_RADIUS * scale;
+  const x = Math.min(Math.max(at.x, area.x + radius), area.x + area.width - radius);
+  const y = Math.min(Math.max(at.y, area.y + radius), area.y + area.height - radius);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fillStyle = color;
+  ctx.fill();
+  ctx.lineWidth = 2 * scale;
+  ctx.strokeStyle = "#000000";
+  ctx.stroke();
+  ctx.fillStyle = "#000000";
+  ctx.font = `bold ${Math.round(radius * 1.2)}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(label, x, y);
+  ctx.restore();
+}
@@ -0,0 +1,36 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+/** Error raised by an edge function, carrying its JSON `error` message, HTTP status and full body. */
+export class FunctionError extends Error {
+  constructor(message: string, public status?: number, public body?: Record<string, unknown>) {
+    super(message);
+    this.name = "FunctionError";
+  }
+}
+
+/** True when the daily quota ran out, as opposed to a short-lived rate limit; both are 429s. */
+export const isQuotaExhausted = (error: unknown) =>
+  error instanceof FunctionError && error.status === 429 && error.body?.quota !== undefined;
+
+/**
+ * Invokes an edge function and unwraps its JSON error body, so 401/402/429
+ * responses surface their own message instead of a generic non-2xx error.
+ */
+export async function invokeFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      throw new FunctionError(payload?.error ?? error.message, error.context.status, payload ?? undefined);
+    }
+    throw error;
+  }
+
+  if (data?.error) {
+    throw new FunctionError(data.error);
+  }
+
+  return data as T;
+}
@@ -0,0 +1,412 @@
+import type { ConstantNode, FunctionNode, MathNode, SymbolNode } from "mathjs";
+import type { MathJs } from "@/lib/mathjs";
+import { freeVariables, latexToMath, toReal } from "@/lib/verify";
+
+export interface Viewport {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+export const DEFAULT_VIEWPORT: Viewport = { xMin: -10, xMax: 10, yMin: -10, yMax: 10 };
+
+export interface Curve {
+  /** Index of the expression row this curve came from. */
+  row: number;
+  label: string;
+  evaluate: (x: number) => number | null;
+  /** Boundary of an inequality in y: drawn dashed, with the side that holds shaded. */
+  shade?: "above" | "below";
+}
+
+export interface PlotRow {
+  curves: Curve[];
+  /** For inequalities in x alone: whether it holds at x. */
+  holds?: (x: number) => boolean;
+}
+
+export type KeyPointKind = "root" | "intersection" | "maximum" | "minimum";
+
+export interface KeyPoint {
+  kind: KeyPointKind;
+  x: number;
+  y: number;
+}
+
+type Relation = "=" | "<" | ">" | "<=" | ">=";
+
+const RELATION = /(<=|>=|<|>|=)/;
+const SAMPLES = 400;
+const MAX_KEY_POINTS = 24;
+const KIND_PRIORITY: Record<KeyPointKind, number> = { intersection: 0, root: 1, maximum: 2, minimum: 2 };
+
+// Splits on separators outside any brackets, so "f(a, b)" stays in one piece.
+const splitTopLevel = (text: string, separator: RegExp) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if ("({[".includes(char)) depth++;
+    else if (")}]".includes(char)) depth--;
+    else if (depth === 0 && separator.test(char)) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((part) => part.trim()).filter(Boolean);
+};
+
+/**
+ * Turns a problem's LaTeX into editable rows in mathjs syntax, one per
+ * equation, inequality or expression. Throws when the LaTeX can't be read.
+ */
+export function latexToRows(math: MathJs, latex: string): string[] {
+  const body = latex
+    .replace(/\\(begin|end)\{[a-z*]*\}/g, "")
+    .replace(/&/g, "")
+    .replace(/\\\\/g, ";")
+    .replace(/\\(leq?|leqslant)\b/g, "<=")
+    .replace(/\\(geq?|geqslant)\b/g, ">=");
+
+  const rows = splitTopLevel(body, /[;,]/).map((row) =>
+    row.split(RELATION).map((piece) => (RELATION.test(piece) ? piece : math.parse(latexToMath(piece)))),
+  );
+
+  // A single unknown other than x or y (say t) is plotted along the x axis
+  const names = new Set(
+    rows.flatMap((pieces) => pieces.flatMap((piece) => (typeof piece === "string" ? [] : freeVariables(piece)))),
+  );
+  const rename = names.size === 1 && !names.has("x") && !names.has("y") ? [...names][0] : null;
+
+  return rows.map((pieces) =>
+    pieces
+      .map((piece) => {
+        if (typeof piece === "string") return ` ${piece} `;
+        const node = rename
+          ? piece.transform((child) =>
+              child.type === "SymbolNode" && (child as SymbolNode).name === rename ? new math.SymbolNode("x") : child,
+            )
+          : piece;
+        return node.toString({ parenthesis: "auto", implicit: "hide" }).replace(/\s*\^\s*/g, "^");
+      })
+      .join("")
+      .trim(),
+  );
+}
+
+/** "y" or "f(x)" on one side of a relation means the other side is a function of x. */
+const isFunctionOfX = (node: MathNode) => {
+  if (node.type === "SymbolNode") return (node as SymbolNode).name === "y";
+  if (node.type !== "FunctionNode") return false;
+  const { fn, args } = node as FunctionNode;
+  // Single letters only, so sin(x) = 1/2 stays an equation
+  return (
+    fn.name.length === 1 &&
+    args.length === 1 &&
+    args[0].type === "SymbolNode" &&
+    (args[0] as SymbolNode).name === "x"
+  );
+};
+
+const flip: Record<Relation, Relation> = { "=": "=", "<": ">", ">": "<", "<=": ">=", ">=": "<=" };
+
+const compare = (a: number, relation: Relation, b: number) => {
+  switch (relation) {
+    case "<":
+      return a < b;
+    case ">":
+      return a > b;
+    case "<=":
+      return a <= b;
+    case ">=":
+      return a >= b;
+    default:
+      return Math.abs(a - b) < 1e-9;
+  }
+};
+
+const compileInX = (math: MathJs, node: MathNode, extra: Record<string, number> = {}) => {
+  const code = node.compile();
+  return (x: number) => {
+    try {
+      return toReal(math, code.evaluate({ ...extra, x }));
+    } catch {
+      return null;
+    }
+  };
+};
+
+/** Parses one editable row into the curves to draw. Throws with a readable message. */
+export function parseRow(math: MathJs, text: string, row: number): PlotRow {
+  const pieces = text.split(RELATION);
+  if (pieces.length !== 1 && pieces.length !== 3) throw new Error("Use at most one =, < or > per line");
+
+  const lhs = math.parse(pieces[0]);
+  if (pieces.length === 1) {
+    assertVariables([lhs], ["x"]);
+    return { curves: [{ row, label: text, evaluate: compileInX(math, lhs) }] };
+  }
+
+  let relation = pieces[1] as Relation;
+  const rhs = math.parse(pieces[2]);
+  const shadeFor = (side: Relation) =>
+    side === "=" ? undefined : side === ">" || side === ">=" ? ("above" as const) : ("below" as const);
+
+  // y = f(x), f(x) = ..., and the same with an inequality
+  if (isFunctionOfX(lhs) || isFunctionOfX(rhs)) {
+    const [other, side] = isFunctionOfX(lhs) ? [rhs, relation] : [lhs, flip[relation]];
+    assertVariables([other], ["x"]);
+    return { curves: [{ row, label: text, evaluate: compileInX(math, other), shade: shadeFor(side) }] };
+  }
+
+  const difference = new math.OperatorNode("-", "subtract", [lhs, rhs]);
+  const variables = freeVariables(difference);
+
+  if (variables.includes("y")) {
+    // Solve F(x, y) = a(x) + b(x) y = 0 for y
+    assertVariables([difference], ["x", "y"]);
+    const slope = math.derivative(difference, "y");
+    if (freeVariables(slope).includes("y")) throw new Error("Only equations linear in y can be graphed");
+    const a = compileInX(math, difference, { y: 0 });
+    const b = compileInX(math, slope, { y: 0 });
+    const evaluate = (x: number) => {
+      const [intercept, gradient] = [a(x), b(x)];
+      return intercept === null || gradient === null || gradient === 0 ? null : -intercept / gradient;
+    };
+    // F > 0 is y > boundary when b is positive; only shade when b has a fixed sign
+    const constantSlope = freeVariables(slope).length === 0 ? b(0) : null;
+    if (relation !== "=" && constantSlope && constantSlope < 0) relation = flip[relation];
+    return {
+      curves: [{ row, label: text, evaluate, shade: constantSlope ? shadeFor(relation) : undefined }],
+    };
+  }
+
+  // An equation or inequality in x alone: plot both sides, solutions are where they meet
+  assertVariables([lhs, rhs], ["x"]);
+  const left = compileInX(math, lhs);
+  const right = compileInX(math, rhs);
+  const rhsIsZero = rhs.type === "ConstantNode" && Number((rhs as ConstantNode).value) === 0;
+  const curves: Curve[] = [{ row, label: pieces[0].trim(), evaluate: left }];
+  if (!rhsIsZero) curves.push({ row, label: pieces[2].trim(), evaluate: right });
+
+  return {
+    curves,
+    holds:
+      relation === "="
+        ? undefined
+        : (x) => {
+            const [a, b] = [left(x), right(x)];
+            return a !== null && b !== null && compare(a, relation, b);
+          },
+  };
+}
+
+const assertVariables = (nodes: MathNode[], allowed: string[]) => {
+  const unknown = nodes.flatMap(freeVariables).filter((name) => !allowed.includes(name));
+  if (unknown.length > 0) throw new Error(`Unknown variable ${unknown[0]}; use ${allowed.join(" and ")}`);
+};
+
+export const sampleXs = ({ xMin, xMax }: Viewport, count = SAMPLES) =>
+  Array.from({ length: count + 1 }, (_, i) => xMin + ((xMax - xMin) * i) / count);
+
+/**
+ * Samples each curve across the viewport. Values far outside it and jumps across
+ * an asymptote become null, so the line breaks instead of drawing a vertical spike.
+ */
+export function sampleCurve(curve: Curve, xs: number[], view: Viewport): (number | null)[] {
+  const height = view.yMax - view.yMin;
+  const values = xs.map((x) => {
+    const y = curve.evaluate(x);
+    return y !== null && Math.abs(y) < 1e9 ? y : null;
+  });
+  return values.map((y, i) => {
+    const previous = values[i - 1];
+    if (y === null || previous == null) return y;
+    const isJump = Math.sign(y) !== Math.sign(previous) && Math.abs(y - previous) > 4 * height;
+    return isJump ? null : y;
+  });
+}
+
+/** Fits the y range to the curves over the x range, ignoring the wildest 5% of values. */
+export function fitViewport(curves: Curve[], xMin: number, xMax: number): Viewport {
+  const ys = curves
+    .flatMap((curve) => sampleXs({ ...DEFAULT_VIEWPORT, xMin, xMax }, 100).map(curve.evaluate))
+    .filter((y): y is number => y !== null && Number.isFinite(y))
+    .sort((a, b) => a - b);
+  if (ys.length === 0) return { xMin, xMax, yMin: DEFAULT_VIEWPORT.yMin, yMax: DEFAULT_VIEWPORT.yMax };
+
+  let low = Math.min(0, ys[Math.floor(ys.length * 0.05)]);
+  let high = Math.max(0, ys[Math.ceil(ys.length * 0.95) - 1]);
+  if (high - low < 1e-6) {
+    low -= 1;
+    high += 1;
+  }
+  const padding = (high - low) * 0.1;
+  return { xMin, xMax, yMin: low - padding, yMax: high + padding };
+}
+
+/**
+ * Starting view: just wide enough to show every root, intersection and
+ * extremum found in [-10, 10], with y fitted to that range.
+ */
+export function initialViewport(curves: Curve[]): Viewport {
+  const wide = fitViewport(curves, DEFAULT_VIEWPORT.xMin, DEFAULT_VIEWPORT.xMax);
+  const xs = findKeyPoints(curves, { ...wide, yMin: -Infinity, yMax: Infinity }).map((point) => point.x);
+  if (xs.length === 0) return wide;
+
+  const [low, high] = [Math.min(...xs), Math.max(...xs)];
+  const padding = Math.max(2, (high - low) * 0.5);
+  return fitViewport(
+    curves,
+    Math.max(DEFAULT_VIEWPORT.xMin, low - padding),
+    Math.min(DEFAULT_VIEWPORT.xMax, high + padding),
+  );
+}
+
+/** Zooms by `factor` (above 1 zooms out) around a point given as fractions of the width from the left and height from the top. */
+export function zoomViewport(view: Viewport, factor: number, anchorX = 0.5, anchorY = 0.5): Viewport {
+  const x = view.xMin + anchorX * (view.xMax - view.xMin);
+  const y = view.yMax - anchorY * (view.yMax - view.yMin);
+  return {
+    xMin: x - (x - view.xMin) * factor,
+    xMax: x + (view.xMax - x) * factor,
+    yMin: y - (y - view.yMin) * factor,
+    yMax: y + (view.yMax - y) * factor,
+  };
+}
+
+/** Drags the view by fractions of its width and height, as a pointer drag would. */
+export function panViewport(view: Viewport, deltaX: number, deltaY: number): Viewport {
+  const dx = deltaX * (view.xMax - view.xMin);
+  const dy = deltaY * (view.yMax - view.yMin);
+  return { xMin: view.xMin - dx, xMax: view.xMax - dx, yMin: view.yMin + dy, yMax: view.yMax + dy };
+}
+
+const bisect = (f: (x: number) => number | null, a: number, b: number) => {
+  let [lo, hi] = [a, b];
+  let fLo = f(lo) ?? 0;
+  for (let i = 0; i < 50; i++) {
+    const mid = (lo + hi) / 2;
+    const fMid = f(mid);
+    if (fMid === null) return null;
+    if (Math.sign(fMid) === Math.sign(fLo)) {
+      lo = mid;
+      fLo = fMid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+};
+
+/** Golden-section search for the extremum of f bracketed by [a, b]. */
+const refineExtremum = (f: (x: number) => number | null, a: number, b: number, isMaximum: boolean) => {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  const score = (x: number) => {
+    const y = f(x);
+    return y === null ? -Infinity : isMaximum ? y : -y;
+  };
+  let [lo, hi] = [a, b];
+  for (let i = 0; i < 40; i++) {
+    const c = hi - ratio * (hi - lo);
+    const d = lo + ratio * (hi - lo);
+    if (score(c) > score(d)) hi = d;
+    else lo = c;
+  }
+  return (lo + hi) / 2;
+};
+
+// Sign changes of f between consecutive samples, refined by bisection. A change
+// across a break in the samples is an asymptote, not a crossing.
+const findZeros = (f: (x: number) => number | null, xs: number[], samples: (number | null)[]) => {
+  const zeros: number[] = [];
+  for (let i = 1; i < xs.length; i++) {
+    const [a, b] = [samples[i - 1], samples[i]];
+    if (a === null || b === null) continue;
+    if (a === 0) zeros.push(xs[i - 1]);
+    else if (Math.sign(a) !== Math.sign(b) && b !== 0) {
+      const root = bisect(f, xs[i - 1], xs[i]);
+      if (root !== null) zeros.push(root);
+    }
+  }
+  return zeros;
+};
+
+/** Roots, pairwise intersections and local extrema of the curves within the viewport. */
+export function findKeyPoints(curves: Curve[], view: Viewport): KeyPoint[] {
+  const xs = sampleXs(view);
+  const sampled = curves.map((curve) => sampleCurve(curve, xs, view));
+  const points: KeyPoint[] = [];
+
+  curves.forEach((curve, index) => {
+    const values = sampled[index];
+    findZeros(curve.evaluate, xs, values).forEach((x) => points.push({ kind: "root", x, y: 0 }));
+
+    for (let i = 1; i < xs.length - 1; i++) {
+      const [before, at, after] = [values[i - 1], values[i], values[i + 1]];
+      if (before === null || at === null || after === null) continue;
+      const isMaximum = at > before && at >= after;
+      const isMinimum = at < before && at <= after;
+      if (!isMaximum && !isMinimum) continue;
+      const x = refineExtremum(curve.evaluate, xs[i - 1], xs[i + 1], isMaximum);
+      const y = curve.evaluate(x);
+      if (y !== null) points.push({ kind: isMaximum ? "maximum" : "minimum", x, y });
+    }
+  });
+
+  curves.forEach((first, i) => {
+    curves.slice(i + 1).forEach((second, offset) => {
+      const j = i + 1 + offset;
+      const difference = (x: number) => {
+        const [a, b] = [first.evaluate(x), second.evaluate(x)];
+        return a === null || b === null ? null : a - b;
+      };
+      const samples = xs.map((_, k) =>
+        sampled[i][k] === null || sampled[j][k] === null ? null : sampled[i][k]! - sampled[j][k]!,
+      );
+      findZeros(difference, xs, samples).forEach((x) => {
+        const y = first.evaluate(x);
+        if (y !== null) points.push({ kind: "intersection", x, y });
+      });
+    });
+  });
+
+  // Drop near-duplicates (a root that is also an extremum, say) and anything off screen
+  const tolerance = (view.xMax - view.xMin) / SAMPLES;
+  const visible = points.filter(
+    (point, index) =>
+      point.y >= view.yMin &&
+      point.y <= view.yMax &&
+      !points.slice(0, index).some((other) => other.kind === point.kind && Math.abs(other.x - point.x) < tolerance),
+  );
+  // Intersections are usually the solutions, so they survive the cap first
+  return visible.sort((a, b) => KIND_PRIORITY[a.kind] - KIND_PRIORITY[b.kind]).slice(0, MAX_KEY_POINTS);
+}
+
+/** x intervals, within the viewport, where every x-only inequality row holds. */
+export function findIntervals(rows: PlotRow[], view: Viewport): [number, number][] {
+  const conditions = rows.flatMap((row) => (row.holds ? [row.holds] : []));
+  if (conditions.length === 0) return [];
+
+  const xs = sampleXs(view);
+  const intervals: [number, number][] = [];
+  let start: number | null = null;
+  xs.forEach((x, i) => {
+    const holds = conditions.every((condition) => condition(x));
+    if (holds && start === null) start = x;
+    if ((!holds || i === xs.length - 1) && start !== null) {
+      intervals.push([start, holds ? x : xs[i - 1]]);
+      start = null;
+    }
+  });
+  return intervals;
+}
+
+/** Short label for a coordinate: at most three decimals, no trailing zeros. */
+export const formatCoordinate = (value: number) => {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+};
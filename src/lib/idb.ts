@@ -0,0 +1,67 @@
+const DB_NAME = "mathmate";
+const DB_VERSION = 2;
+
+interface StoreDefinition {
+  keyPath: string;
+  indexes?: Record<string, string>;
+}
+
+/** Object stores and their indexes. Bump DB_VERSION when adding to this. */
+const STORES = {
+  batchQueue: { keyPath: "id", indexes: { createdAt: "createdAt" } },
+} satisfies Record<string, StoreDefinition>;
+
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.entries(STORES).forEach(([name, { keyPath, indexes = {} }]: [string, StoreDefinition]) => {
+          if (db.objectStoreNames.contains(name)) return;
+          const store = db.createObjectStore(name, { keyPath });
+          Object.entries(indexes).forEach(([indexName, indexKeyPath]) => {
+            store.createIndex(indexName, indexKeyPath);
+          });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const idbGetAll = <T>(storeName: StoreName, index?: string, query?: IDBValidKey) =>
+  run<T[]>(storeName, "readonly", (store) =>
+    index ? store.index(index).getAll(query) : store.getAll(),
+  );
+
+export const idbGet = <T>(storeName: StoreName, key: IDBValidKey) =>
+  run<T | undefined>(storeName, "readonly", (store) => store.get(key));
+
+export const idbPut = <T>(storeName: StoreName, value: T) =>
+  run(storeName, "readwrite", (store) => store.put(value));
+
+export const idbDelete = (storeName: StoreName, key: IDBValidKey) =>
+  run(storeName, "readwrite", (store) => store.delete(key));
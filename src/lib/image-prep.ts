@@ -0,0 +1,176 @@
+export type ImageFormat = "image/webp" | "image/jpeg";
+
+export interface ImagePrepSettings {
+  /** Longest side in pixels; larger images are scaled down to fit. */
+  maxDimension: number;
+  format: ImageFormat;
+  /** 0-1, passed to `toDataURL`. */
+  quality: number;
+  grayscale: boolean;
+  boostContrast: boolean;
+}
+
+export interface ImagePrepStats {
+  originalBytes: number;
+  preparedBytes: number;
+  originalWidth: number;
+  originalHeight: number;
+  width: number;
+  height: number;
+  format: string;
+  timestamp: Date;
+}
+
+export interface ImagePrepState {
+  settings: ImagePrepSettings;
+  lastStats: ImagePrepStats | null;
+}
+
+export const DEFAULT_IMAGE_PREP: ImagePrepSettings = {
+  maxDimension: 2048,
+  format: "image/webp",
+  quality: 0.85,
+  grayscale: false,
+  boostContrast: false,
+};
+
+const SETTINGS_STORAGE_KEY = "mathmate:image-prep";
+const CONTRAST_FACTOR = 1.5;
+
+const loadSettings = (): ImagePrepSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_IMAGE_PREP, ...JSON.parse(saved) } : DEFAULT_IMAGE_PREP;
+  } catch {
+    return DEFAULT_IMAGE_PREP;
+  }
+};
+
+// Module-level store, like use-toast, so every capture source shares one set of
+// settings and the debug panel sees stats no matter which source produced them.
+const listeners: Array<(state: ImagePrepState) => void> = [];
+
+let memoryState: ImagePrepState = { settings: loadSettings(), lastStats: null };
+
+function setState(changes: Partial<ImagePrepState>) {
+  memoryState = { ...memoryState, ...changes };
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+}
+
+export const getImagePrepState = () => memoryState;
+
+export function subscribeImagePrep(listener: (state: ImagePrepState) => void) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+export function updateImagePrepSettings(changes: Partial<ImagePrepSettings>) {
+  const settings = { ...memoryState.settings, ...changes };
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  setState({ settings });
+}
+
+type ImageSource = HTMLCanvasElement | HTMLImageElement | HTMLVideoElement | string;
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Couldn't read the image"));
+    image.src = src;
+  });
+
+const sourceSize = (source: Exclude<ImageSource, string>) => {
+  if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight };
+  if (source instanceof HTMLImageElement) return { width: source.naturalWidth, height: source.naturalHeight };
+  return { width: source.width, height: source.height };
+};
+
+const adjustPixels = (ctx: CanvasRenderingContext2D, width: number, height: number, settings: ImagePrepSettings) => {
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const { data } = imageData;
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i];
+    let g = data[i + 1];
+    let b = data[i + 2];
+    if (settings.grayscale) {
+      r = g = b = r * 0.299 + g * 0.587 + b * 0.114;
+    }
+    if (settings.boostContrast) {
+      r = (r - 128) * CONTRAST_FACTOR + 128;
+      g = (g - 128) * CONTRAST_FACTOR + 128;
+      b = (b - 128) * CONTRAST_FACTOR + 128;
+    }
+    // Uint8ClampedArray clamps to 0-255 for us.
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+  ctx.putImageData(imageData, 0, 0);
+};
+
+/**
+ * Downscales, re-encodes and optionally cleans up an image before it is sent
+ * for analysis. Returns a data URL; falls back to JPEG where the browser can't
+ * encode WebP.
+ */
+export async function prepareImage(source: ImageSource, overrides: Partial<ImagePrepSettings> = {}) {
+  const settings = { ...memoryState.settings, ...overrides };
+  const image = typeof source === "string" ? await loadImage(source) : source;
+  const original = sourceSize(image);
+
+  const scale = Math.min(1, settings.maxDimension / Math.max(original.width, original.height));
+  const width = Math.max(1, Math.round(original.width * scale));
+  const height = Math.max(1, Math.round(original.height * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+
+  // Transparent areas would turn black under JPEG, which has no alpha
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(image, 0, 0, width, height);
+  if (settings.grayscale || settings.boostContrast) {
+    adjustPixels(ctx, width, height, settings);
+  }
+
+  let prepared = canvas.toDataURL(settings.format, settings.quality);
+  // Browsers without a WebP encoder silently return PNG instead.
+  if (!prepared.startsWith(`data:${settings.format}`)) {
+    prepared = canvas.toDataURL("image/jpeg", settings.quality);
+  }
+
+  // Only pay for encoding the original as PNG when someone is watching the stats.
+  if (listeners.length > 0) {
+    const originalBytes = typeof source === "string"
+      ? source.length
+      : source instanceof HTMLCanvasElement
+        ? source.toDataURL("image/png").length
+        : 0;
+    setState({
+      lastStats: {
+        originalBytes,
+        preparedBytes: prepared.length,
+        originalWidth: original.width,
+        originalHeight: original.height,
+        width,
+        height,
+        format: prepared.slice(5, prepared.indexOf(";")),
+        timestamp: new Date(),
+      },
+    });
+  }
+
+  return prepared;
+}
@@ -0,0 +1,6 @@
+export type MathJs = typeof import("mathjs");
+
+let mathPromise: Promise<MathJs> | null = null;
+
+/** mathjs is big, so it is only loaded the first time something needs it. */
+export const loadMath = () => (mathPromise ??= import("mathjs"));
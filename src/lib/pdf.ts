@@ -0,0 +1,37 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import workerSrc from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+export type { PDFDocumentProxy };
+
+// pdf.js is large, so it is only loaded once someone actually uploads a PDF.
+const loadPdfJs = async () => {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+  return pdfjs;
+};
+
+export const isPdfFile = (file: File) => file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+
+export async function openPdf(file: File): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfJs();
+  return pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+}
+
+/** Renders a 1-based page to a canvas `width` pixels wide, on a white background. */
+export async function renderPdfPage(pdf: PDFDocumentProxy, pageNumber: number, width: number) {
+  const page = await pdf.getPage(pageNumber);
+  const unscaled = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: width / unscaled.width });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  page.cleanup();
+  return canvas;
+}
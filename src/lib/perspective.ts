@@ -0,0 +1,235 @@
+import type { Point } from "@/lib/drawing";
+
+/** Page corners in order: top-left, top-right, bottom-right, bottom-left. */
+export type Quad = [Point, Point, Point, Point];
+
+const DETECTION_WIDTH = 320;
+// A page must cover at least this share of the frame to count as detected.
+const MIN_PAGE_AREA = 0.15;
+const MAX_OUTPUT_DIMENSION = 2400;
+
+type Frame = HTMLVideoElement | HTMLCanvasElement;
+
+const frameSize = (frame: Frame) =>
+  frame instanceof HTMLVideoElement
+    ? { width: frame.videoWidth, height: frame.videoHeight }
+    : { width: frame.width, height: frame.height };
+
+// Otsu's method: the gray level that best separates the histogram into two classes.
+const otsuThreshold = (gray: Uint8ClampedArray) => {
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach((value) => histogram[value]++);
+
+  const total = gray.length;
+  const sum = histogram.reduce((acc, count, level) => acc + count * level, 0);
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const between = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = level;
+    }
+  }
+  return threshold;
+};
+
+// Pixel indices of the largest 4-connected region where `mask` is set.
+const largestRegion = (mask: Uint8Array, width: number, height: number) => {
+  const visited = new Uint8Array(mask.length);
+  const stack: number[] = [];
+  let largest: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+    const region: number[] = [];
+    stack.push(start);
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      region.push(index);
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index >= width ? index - width : -1,
+        index < width * (height - 1) ? index + width : -1,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && mask[next] && !visited[next]) {
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+    if (region.length > largest.length) largest = region;
+  }
+  return largest;
+};
+
+const quadArea = (quad: Quad) =>
+  Math.abs(
+    quad.reduce((acc, point, i) => {
+      const next = quad[(i + 1) % 4];
+      return acc + point.x * next.y - next.x * point.y;
+    }, 0),
+  ) / 2;
+
+/**
+ * Finds a sheet of paper in the frame: the largest bright region after Otsu
+ * thresholding, with its corners taken as the region's extreme points along
+ * the diagonals. Returns corners in the frame's own pixels, or null when no
+ * plausible page is visible.
+ */
+export function detectPageCorners(frame: Frame): Quad | null {
+  const { width: frameWidth, height: frameHeight } = frameSize(frame);
+  if (!frameWidth || !frameHeight) return null;
+
+  const scale = DETECTION_WIDTH / frameWidth;
+  const width = DETECTION_WIDTH;
+  const height = Math.max(1, Math.round(frameHeight * scale));
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(frame, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+
+  const threshold = otsuThreshold(gray);
+  const mask = new Uint8Array(gray.length);
+  gray.forEach((value, i) => {
+    mask[i] = value > threshold ? 1 : 0;
+  });
+
+  const region = largestRegion(mask, width, height);
+  if (region.length < gray.length * MIN_PAGE_AREA) return null;
+
+  let topLeft = region[0];
+  let topRight = region[0];
+  let bottomRight = region[0];
+  let bottomLeft = region[0];
+  const sum = (i: number) => (i % width) + Math.floor(i / width);
+  const diff = (i: number) => (i % width) - Math.floor(i / width);
+  for (const index of region) {
+    if (sum(index) < sum(topLeft)) topLeft = index;
+    if (sum(index) > sum(bottomRight)) bottomRight = index;
+    if (diff(index) > diff(topRight)) topRight = index;
+    if (diff(index) < diff(bottomLeft)) bottomLeft = index;
+  }
+
+  const toFrame = (index: number): Point => ({
+    x: (index % width) / scale,
+    y: Math.floor(index / width) / scale,
+  });
+  const quad: Quad = [toFrame(topLeft), toFrame(topRight), toFrame(bottomRight), toFrame(bottomLeft)];
+  return quadArea(quad) >= frameWidth * frameHeight * MIN_PAGE_AREA ? quad : null;
+}
+
+// Solves the 8 unknowns of the homography mapping `from` onto `to` with
+// Gaussian elimination; h33 is fixed at 1.
+const computeHomography = (from: Quad, to: Quad) => {
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    if (Math.abs(rows[col][col]) < 1e-10) return null;
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+
+  const h = rows.map((row, i) => row[8] / row[i]);
+  return [...h, 1];
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Keystone correction: maps the quadrilateral `corners` of `source` onto a
+ * flat rectangle sized from the page's edge lengths, sampling bilinearly.
+ */
+export function warpPerspective(source: HTMLCanvasElement, corners: Quad) {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  let width = Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight));
+  let height = Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight));
+  const shrink = Math.min(1, MAX_OUTPUT_DIMENSION / Math.max(width, height));
+  width = Math.max(1, Math.round(width * shrink));
+  height = Math.max(1, Math.round(height * shrink));
+
+  // Map output pixels back into the source, so every output pixel gets a value.
+  const rectangle: Quad = [
+    { x: 0, y: 0 },
+    { x: width - 1, y: 0 },
+    { x: width - 1, y: height - 1 },
+    { x: 0, y: height - 1 },
+  ];
+  const h = computeHomography(rectangle, corners);
+  if (!h) return null;
+
+  const sourceCtx = source.getContext("2d");
+  const output = document.createElement("canvas");
+  output.width = width;
+  output.height = height;
+  const outputCtx = output.getContext("2d");
+  if (!sourceCtx || !outputCtx) return null;
+
+  const { data: src } = sourceCtx.getImageData(0, 0, source.width, source.height);
+  const result = outputCtx.createImageData(width, height);
+  const dst = result.data;
+  const maxX = source.width - 1;
+  const maxY = source.height - 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = h[6] * x + h[7] * y + h[8];
+      const sx = Math.min(maxX, Math.max(0, (h[0] * x + h[1] * y + h[2]) / w));
+      const sy = Math.min(maxY, Math.max(0, (h[3] * x + h[4] * y + h[5]) / w));
+
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1);
+      const y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+
+      const out = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = src[(y0 * source.width + x0) * 4 + c] * (1 - fx) + src[(y0 * source.width + x1) * 4 + c] * fx;
+        const bottom = src[(y1 * source.width + x0) * 4 + c] * (1 - fx) + src[(y1 * source.width + x1) * 4 + c] * fx;
+        dst[out + c] = top * (1 - fy) + bottom * fy;
+      }
+      dst[out + 3] = 255;
+    }
+  }
+
+  outputCtx.putImageData(result, 0, 0);
+  return output;
+}
@@ -0,0 +1,96 @@
+import {
+  AnalysisResult,
+  analysisResultSchema,
+  Annotation,
+  RejectedAnswer,
+  SolveMode,
+  transcriptionSchema,
+} from "@/lib/analysis";
+import { invokeFunction } from "@/lib/functions";
+import { verifyResult } from "@/lib/verify";
+
+export interface SolveOptions {
+  /** Marks the student drew on the capture. */
+  annotations?: Annotation[];
+  /** Compare several independent solutions and return the majority answer. */
+  accuracy?: boolean;
+}
+
+/** What the problem is: a captured image, typed LaTeX, or both. */
+type SolveInput = { image: string; text?: string } | { image?: string; text: string };
+
+const requestSolve = async (
+  input: SolveInput,
+  mode: SolveMode,
+  { annotations = [], accuracy = false }: SolveOptions,
+  rejected: RejectedAnswer[] = [],
+): Promise<AnalysisResult> => {
+  const data = await invokeFunction<unknown>("analyze-math", {
+    ...input,
+    type: input.image ? "capture" : "typed",
+    mode,
+    annotations,
+    rejected,
+    accuracy,
+  });
+
+  const parsed = analysisResultSchema.safeParse(data);
+  if (!parsed.success) {
+    console.error("Unexpected analyze-math response:", parsed.error);
+    throw new Error("Received an unreadable answer. Please try again.");
+  }
+  return parsed.data;
+};
+
+// If the local algebra check firmly contradicts any answer, the problem is
+// solved once more with those answers marked as wrong. Partial contradictions
+// only get the badge, since they may come from the check misreading the LaTeX.
+const solveChecked = async (input: SolveInput, mode: SolveMode, options: SolveOptions) => {
+  const result = await requestSolve(input, mode, options);
+
+  const checks = await verifyResult(result);
+  const rejected = result.problems
+    .filter((_, index) => checks[index].status === "contradicted" && checks[index].robust)
+    .map(({ latex, answer }) => ({ latex, answer }));
+  if (rejected.length === 0) return result;
+
+  console.warn(`${rejected.length} answer(s) failed verification, solving again`);
+  try {
+    return await requestSolve(input, mode, options, rejected);
+  } catch (error) {
+    console.error("Re-solve failed, keeping the first answer:", error);
+    return result;
+  }
+};
+
+/** Sends one image to analyze-math and validates the response. */
+export function solveImage(image: string, mode: SolveMode, options: SolveOptions = {}): Promise<AnalysisResult> {
+  return solveChecked({ image }, mode, options);
+}
+
+/** Solves a capture together with the student's reviewed transcription of it. */
+export function solveCapture(
+  image: string,
+  text: string,
+  mode: SolveMode,
+  options: SolveOptions = {},
+): Promise<AnalysisResult> {
+  return solveChecked(text ? { image, text } : { image }, mode, options);
+}
+
+/** Solves a typed LaTeX problem; no vision model is involved, so it is cheaper and faster. */
+export function solveText(text: string, mode: SolveMode, options: SolveOptions = {}): Promise<AnalysisResult> {
+  return solveChecked({ text }, mode, options);
+}
+
+/** Reads the problems in a capture as LaTeX, without solving them, so the student can correct misreadings. */
+export async function transcribeImage(image: string, annotations: Annotation[] = []): Promise<string> {
+  const data = await invokeFunction<unknown>("analyze-math", { phase: "transcribe", image, annotations });
+
+  const parsed = transcriptionSchema.safeParse(data);
+  if (!parsed.success) {
+    console.error("Unexpected analyze-math transcription:", parsed.error);
+    throw new Error("Couldn't read the problem. Please try again.");
+  }
+  return parsed.data.latex;
+}
@@ -0,0 +1,64 @@
+import { supabase } from "@/integrations/supabase/client";
+import { FunctionError } from "@/lib/functions";
+
+const FUNCTIONS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
+
+interface StreamChatOptions {
+  body: Record<string, unknown>;
+  signal?: AbortSignal;
+  onDelta: (text: string) => void;
+}
+
+/**
+ * Calls the david-chat edge function and feeds each streamed token to
+ * `onDelta`. Resolves when the stream ends; rejects with an AbortError if
+ * `signal` is aborted and with a FunctionError for non-2xx responses.
+ */
+export async function streamChat({ body, signal, onDelta }: StreamChatOptions) {
+  const { data } = await supabase.auth.getSession();
+
+  const response = await fetch(`${FUNCTIONS_URL}/david-chat`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${data.session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const payload = await response.json().catch(() => null);
+    throw new FunctionError(payload?.error ?? `Chat request failed (${response.status})`, response.status, payload ?? undefined);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newlineIndex).replace(/\r$/, "");
+      buffer = buffer.slice(newlineIndex + 1);
+
+      // Skip blank separators and ": keep-alive" comments.
+      if (!line.startsWith("data: ")) continue;
+
+      const payload = line.slice(6).trim();
+      if (payload === "[DONE]") return;
+
+      try {
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) onDelta(delta);
+      } catch {
+        console.warn("Skipping malformed stream line:", payload);
+      }
+    }
+  }
+}
@@ -0,0 +1,419 @@
+import type { FunctionNode, MathNode, SymbolNode } from "mathjs";
+import type { AnalysisResult, DetectedProblem } from "@/lib/analysis";
+import { loadMath, MathJs } from "@/lib/mathjs";
+
+export type VerificationStatus = "verified" | "unverified" | "contradicted";
+
+export interface Verification {
+  status: VerificationStatus;
+  /** Short human-readable reason, shown as the badge tooltip. */
+  detail: string;
+  /** Set on contradictions where every comparison failed, not just some. */
+  robust?: boolean;
+}
+
+/** Non-integer points, so that 1/x, log(x - 1) and friends are usually defined. */
+const SAMPLE_POINTS = [0.37, 1.3, -0.81, 2.2, -1.7, 3.1];
+
+// Differences below TIGHT (relative) count as equal. Between TIGHT and LOOSE
+// the answer may just be rounded, so we don't call it wrong.
+const TIGHT = 1e-6;
+const LOOSE = 0.05;
+
+const CONSTANTS = new Set(["pi", "e", "i", "E", "PI"]);
+
+const FUNCTIONS: Record<string, string> = {
+  sin: "sin", cos: "cos", tan: "tan", sec: "sec", csc: "csc", cot: "cot",
+  arcsin: "asin", arccos: "acos", arctan: "atan",
+  sinh: "sinh", cosh: "cosh", tanh: "tanh",
+  ln: "log", log: "log10", exp: "exp",
+};
+
+const SYMBOLS: Record<string, string> = {
+  cdot: "*", times: "*", div: "/", pi: "pi",
+  alpha: "alpha", beta: "beta", theta: "theta", lambda: "lambda", mu: "mu", phi: "phi",
+};
+
+const unsupported = (what: string) => new Error(`Unsupported LaTeX: ${what}`);
+
+// Returns the contents of the {...} group starting at `start` and the index just past it.
+const readGroup = (source: string, start: number): [string, number] => {
+  if (source[start] !== "{") {
+    // \frac12 style: a single character argument
+    if (start >= source.length) throw unsupported("missing argument");
+    return [source[start], start + 1];
+  }
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === "{") depth++;
+    else if (source[i] === "}" && --depth === 0) return [source.slice(start + 1, i), i + 1];
+  }
+  throw unsupported("unbalanced braces");
+};
+
+/** Converts the LaTeX subset the solver produces into a mathjs expression string. */
+export function latexToMath(latex: string): string {
+  const source = latex
+    .replace(/\\(left|right|displaystyle|,|;|!|:| )/g, " ")
+    .replace(/\\[dt]frac/g, "\\frac")
+    .replace(/\\operatorname\{(\w+)\}/g, "\\$1")
+    .replace(/\\[bB]ig/g, "")
+    .trim();
+
+  let out = "";
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === "_") {
+      // x_1 and x_{12} become the symbol x_12; anything else is too ambiguous to guess at
+      const [subscript, after] = readGroup(source, i + 1);
+      if (!/[a-zA-Z]$/.test(out) || !/^[a-zA-Z0-9]+$/.test(subscript)) throw unsupported("subscript");
+      out += `_${subscript}`;
+      i = after;
+      continue;
+    }
+    if (char !== "\\") {
+      if (char === "{" || char === "[") out += "(";
+      else if (char === "}" || char === "]") out += ")";
+      else if (char === "|") throw unsupported("absolute value bars");
+      else out += char;
+      i++;
+      continue;
+    }
+
+    const name = /^\\([a-zA-Z]+)/.exec(source.slice(i))?.[1];
+    if (!name) throw unsupported(source.slice(i, i + 2));
+    i += name.length + 1;
+
+    if (name === "frac") {
+      // 2\frac{1}{2} could be a mixed number or a product
+      if (/\d\s*$/.test(out)) throw unsupported("mixed number");
+      const [numerator, afterNumerator] = readGroup(source, skipSpaces(source, i));
+      const [denominator, afterDenominator] = readGroup(source, skipSpaces(source, afterNumerator));
+      out += `((${latexToMath(numerator)})/(${latexToMath(denominator)}))`;
+      i = afterDenominator;
+    } else if (name === "sqrt") {
+      let degree: string | null = null;
+      i = skipSpaces(source, i);
+      if (source[i] === "[") {
+        const close = source.indexOf("]", i);
+        if (close < 0) throw unsupported("unbalanced root degree");
+        degree = source.slice(i + 1, close);
+        i = close + 1;
+      }
+      const [radicand, after] = readGroup(source, skipSpaces(source, i));
+      out += degree
+        ? `nthRoot(${latexToMath(radicand)}, ${latexToMath(degree)})`
+        : `sqrt(${latexToMath(radicand)})`;
+      i = after;
+    } else if (name in FUNCTIONS) {
+      // \sin^2 x means (sin x)^2, which mathjs would misread
+      if (source[skipSpaces(source, i)] === "^") throw unsupported(`\\${name}^`);
+      i = skipSpaces(source, i);
+      let base: string | null = null;
+      if (source[i] === "_") {
+        if (name !== "log") throw unsupported(`\\${name}_`);
+        const [subscript, after] = readGroup(source, skipSpaces(source, i + 1));
+        base = latexToMath(subscript);
+        i = skipSpaces(source, after);
+      }
+
+      let argument: string;
+      if (source[i] === "(" || source[i] === "{") {
+        const [group, after] = source[i] === "{" ? readGroup(source, i) : readParens(source, i);
+        argument = latexToMath(group);
+        i = after;
+      } else {
+        // \sin x: the argument runs to the next operator
+        const plain = /^[a-zA-Z0-9.]+/.exec(source.slice(i))?.[0];
+        if (!plain) throw unsupported(`\\${name} without an argument`);
+        argument = plain;
+        i += plain.length;
+      }
+      // \log_b x is log(x, b) in mathjs; plain \log stays base 10
+      out += base === null ? ` ${FUNCTIONS[name]}(${argument})` : ` log(${argument}, ${base})`;
+    } else if (name in SYMBOLS) {
+      out += ` ${SYMBOLS[name]} `;
+    } else {
+      throw unsupported(`\\${name}`);
+    }
+  }
+  return out;
+}
+
+// Like readGroup, for a (...) group after a function name.
+const readParens = (source: string, start: number): [string, number] => {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === "(") depth++;
+    else if (source[i] === ")" && --depth === 0) return [source.slice(start + 1, i), i + 1];
+  }
+  throw unsupported("unbalanced parentheses");
+};
+
+const skipSpaces = (source: string, index: number) => {
+  while (source[index] === " ") index++;
+  return index;
+};
+
+/** Strips markdown math delimiters, \boxed and wording so only the math is left. */
+const cleanAnswer = (answer: string) =>
+  answer
+    .replace(/\$+/g, " ")
+    .replace(/\\boxed\{((?:[^{}]|\{[^{}]*\})*)\}/g, "$1")
+    .replace(/\\text\{\s*(or|and)\s*\}/gi, ",")
+    .replace(/\\(quad|qquad)/g, ",")
+    .replace(/\*\*/g, "")
+    .replace(/\b(or|and)\b/gi, ",")
+    .replace(/\\approx/g, "=")
+    .replace(/[.\s]+$/, "")
+    .trim();
+
+/** The part after the last "=", e.g. the result of "f'(x) = 2x". */
+const rightOfEquals = (text: string) => text.slice(text.lastIndexOf("=") + 1).trim();
+
+export const freeVariables = (node: MathNode) => {
+  const names = new Set<string>();
+  node.traverse((child, _path, parent) => {
+    const isFunctionName = parent?.type === "FunctionNode" && (parent as FunctionNode).fn === child;
+    const name = (child as SymbolNode).name;
+    if (child.type === "SymbolNode" && !isFunctionName && !CONSTANTS.has(name)) {
+      names.add(name);
+    }
+  });
+  return [...names];
+};
+
+type Comparison = "match" | "mismatch" | "unclear";
+
+export const toReal = (math: MathJs, value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (math.isComplex(value)) return Math.abs(value.im) < 1e-9 ? value.re : null;
+  if (math.isFraction(value) || math.isBigNumber(value)) return Number(value);
+  return null;
+};
+
+const compareNumbers = (a: number, b: number): Comparison => {
+  const scale = Math.max(1, Math.abs(a), Math.abs(b));
+  const difference = Math.abs(a - b) / scale;
+  if (difference <= TIGHT) return "match";
+  return difference > LOOSE ? "mismatch" : "unclear";
+};
+
+/** Compares two expressions at sample points; needs at least two points where both are defined. */
+const compareExpressions = (math: MathJs, expected: MathNode, actual: MathNode, variables: string[]): Comparison[] => {
+  const expectedCode = expected.compile();
+  const actualCode = actual.compile();
+  const results: Comparison[] = [];
+
+  SAMPLE_POINTS.forEach((_, index) => {
+    // Stagger the points so several variables don't all take the same value
+    const scope = Object.fromEntries(
+      variables.map((name, offset) => [name, SAMPLE_POINTS[(index + offset) % SAMPLE_POINTS.length]]),
+    );
+    try {
+      const a = toReal(math, expectedCode.evaluate(scope));
+      const b = toReal(math, actualCode.evaluate(scope));
+      if (a !== null && b !== null) results.push(compareNumbers(a, b));
+    } catch {
+      // Outside the domain of one of them; try the next point
+    }
+  });
+
+  return results.length < 2 ? [] : results;
+};
+
+// One mismatch is enough to contradict the answer, but it only counts as
+// robust when every comparison failed: a misparse tends to break some points
+// and not others, while a wrong answer misses everywhere.
+const toVerification = (comparisons: Comparison[], what: string): Verification => {
+  if (comparisons.includes("mismatch")) {
+    return {
+      status: "contradicted",
+      detail: `Failed check: ${what}`,
+      robust: comparisons.every((comparison) => comparison === "mismatch"),
+    };
+  }
+  if (comparisons.length > 0 && comparisons.every((comparison) => comparison === "match")) {
+    return { status: "verified", detail: `Checked: ${what}` };
+  }
+  return { status: "unverified", detail: `Couldn't confirm: ${what}` };
+};
+
+const unverified = (detail: string): Verification => ({ status: "unverified", detail });
+
+/** Reads "x = 2, x = -3", "x_1 = 2" or "x = \pm 2" into values per variable. */
+const readAssignments = (math: MathJs, answer: string) => {
+  const assignments = new Map<string, number[]>();
+  for (const part of answer.split(/[,;]/)) {
+    const match = /^\s*([a-zA-Z])(?:_\{?([a-zA-Z0-9]+)\}?)?\s*=\s*(.+)$/.exec(part);
+    if (!match) continue;
+    // Named the way latexToMath names subscripted symbols, so x_{1} is x_1
+    const [, letter, subscript, valueLatex] = match;
+    const name = subscript ? `${letter}_${subscript}` : letter;
+    const values = valueLatex.includes("\\pm")
+      ? [valueLatex.replace("\\pm", "+"), valueLatex.replace("\\pm", "-")]
+      : [valueLatex];
+    for (const value of values) {
+      const number = toReal(math, math.evaluate(latexToMath(value)));
+      if (number === null) throw unsupported("non-real root");
+      assignments.set(name, [...(assignments.get(name) ?? []), number]);
+    }
+  }
+  return assignments;
+};
+
+const verifyEquation = (math: MathJs, latex: string, answer: string): Verification => {
+  const [lhs, rhs, ...rest] = latex.split("=");
+  if (rest.length > 0) return unverified("Chained equations aren't checked");
+  const difference = math.parse(`(${latexToMath(lhs)}) - (${latexToMath(rhs)})`);
+  const variables = freeVariables(difference);
+  if (variables.length === 0) return unverified("No unknown to solve for");
+
+  if (/no (real )?solution|\\emptyset|\\varnothing/i.test(answer)) {
+    return unverified("Claims there is no solution");
+  }
+  const assignments = readAssignments(math, answer);
+  // "x_1 = 2, x_2 = 3" numbers the roots of an equation in plain x
+  if (variables.length === 1 && !assignments.has(variables[0])) {
+    const roots = [...assignments].filter(([name]) => name.startsWith(`${variables[0]}_`)).flatMap(([, values]) => values);
+    if (roots.length > 0) assignments.set(variables[0], roots);
+  }
+  if (variables.some((name) => !assignments.has(name))) {
+    return unverified("Couldn't read a value for every unknown");
+  }
+
+  const code = difference.compile();
+  const lhsCode = math.parse(latexToMath(lhs)).compile();
+  const check = (scope: Record<string, number>): Comparison => {
+    const residual = toReal(math, code.evaluate(scope));
+    const size = toReal(math, lhsCode.evaluate(scope));
+    if (residual === null || size === null) return "unclear";
+    return compareNumbers(size - residual, size);
+  };
+
+  let comparisons: Comparison[];
+  if (variables.length === 1) {
+    const [name] = variables;
+    comparisons = assignments.get(name)!.map((value) => check({ [name]: value }));
+  } else {
+    // A system's single solution: every unknown needs exactly one value
+    if (variables.some((name) => assignments.get(name)!.length !== 1)) {
+      return unverified("Several values for a multi-variable equation");
+    }
+    comparisons = [check(Object.fromEntries(variables.map((name) => [name, assignments.get(name)![0]])))];
+  }
+
+  return toVerification(comparisons, "substituted the answer back into the equation");
+};
+
+/** Matches \frac{d}{dx} f or \frac{d}{dx}\left(f\right). */
+const DERIVATIVE = /^\\frac\s*\{\s*d\s*\}\s*\{\s*d\s*([a-z])\s*\}(.+)$/;
+/** Matches \int f \, dx, with optional bounds that are a {group}, a command or one character. */
+const INTEGRAL = /^\\int(?:_(\{[^{}]*\}|\\[a-zA-Z]+|[^\s{}])\^(\{[^{}]*\}|\\[a-zA-Z]+|[^\s{}]))?\s*(.+?)\\?,?\s*d([a-z])\s*$/;
+
+const verifyDerivative = (math: MathJs, variable: string, fLatex: string, answer: string): Verification => {
+  const f = math.parse(latexToMath(fLatex));
+  const expected = math.derivative(f, variable);
+  const actual = math.parse(latexToMath(rightOfEquals(answer)));
+  return toVerification(
+    compareExpressions(math, expected, actual, freeVariables(f)),
+    "compared with the derivative at sample points",
+  );
+};
+
+/** Composite Simpson's rule, plenty for checking a textbook definite integral. */
+const integrate = (evaluate: (x: number) => number, a: number, b: number, steps = 400) => {
+  const h = (b - a) / steps;
+  let sum = evaluate(a) + evaluate(b);
+  for (let k = 1; k < steps; k++) sum += evaluate(a + k * h) * (k % 2 ? 4 : 2);
+  return (sum * h) / 3;
+};
+
+const verifyIntegral = (
+  math: MathJs,
+  [, lower, upper, integrandLatex, variable]: RegExpExecArray,
+  answer: string,
+): Verification => {
+  const integrand = math.parse(latexToMath(integrandLatex));
+  const result = rightOfEquals(answer);
+
+  if (lower !== undefined && upper !== undefined) {
+    const code = integrand.compile();
+    const evaluate = (x: number) => {
+      const y = toReal(math, code.evaluate({ [variable]: x }));
+      if (y === null) throw unsupported("integrand undefined on the interval");
+      return y;
+    };
+    const a = toReal(math, math.evaluate(latexToMath(lower)));
+    const b = toReal(math, math.evaluate(latexToMath(upper)));
+    const claimed = toReal(math, math.evaluate(latexToMath(result)));
+    if (a === null || b === null || claimed === null) return unverified("Couldn't read the bounds or the answer");
+    return toVerification([compareNumbers(integrate(evaluate, a, b), claimed)], "integrated numerically");
+  }
+
+  // Indefinite: differentiate the answer (minus its constant) and compare to the integrand
+  const antiderivative = math.parse(latexToMath(result.replace(/\+\s*C\s*$/, "")));
+  return toVerification(
+    compareExpressions(math, integrand, math.derivative(antiderivative, variable), freeVariables(integrand)),
+    "differentiated the answer and compared with the integrand",
+  );
+};
+
+const verifyExpression = (math: MathJs, latex: string, answer: string): Verification => {
+  const expected = math.parse(latexToMath(latex));
+  const actual = math.parse(latexToMath(rightOfEquals(answer)));
+  const variables = freeVariables(expected);
+
+  if (variables.length === 0) {
+    const a = toReal(math, expected.evaluate());
+    const b = toReal(math, actual.evaluate());
+    if (a === null || b === null) return unverified("Not a real number");
+    return toVerification([compareNumbers(a, b)], "evaluated the expression");
+  }
+  return toVerification(
+    compareExpressions(math, math.simplify(expected), actual, variables),
+    "compared both sides at sample points",
+  );
+};
+
+/** Checks one problem's answer against its recognized LaTeX with a local CAS. */
+export async function verifyProblem(problem: Pick<DetectedProblem, "latex" | "question" | "answer">): Promise<Verification> {
+  const latex = problem.latex.trim();
+  const answer = cleanAnswer(problem.answer);
+  if (!latex || !answer) return unverified("Nothing to check");
+  if (/[<>]|\\[lg]eq?\b|\\neq|\\lim|\\sum|\\prod|\\begin/.test(latex)) {
+    return unverified("This kind of problem isn't checked yet");
+  }
+
+  try {
+    const math = await loadMath();
+    const derivative = DERIVATIVE.exec(latex);
+    if (derivative) return verifyDerivative(math, derivative[1], derivative[2], answer);
+
+    const integral = INTEGRAL.exec(latex);
+    if (integral) return verifyIntegral(math, integral, answer);
+
+    // "f(x) = x^2" with a "differentiate" question is a derivative, not an equation
+    const definition = /^[a-zA-Z]\s*\(\s*([a-z])\s*\)\s*=(.+)$/.exec(latex);
+    if (definition && /derivative|differentiate/i.test(problem.question)) {
+      return verifyDerivative(math, definition[1], definition[2], answer);
+    }
+    if (/derivative|differentiate/i.test(problem.question) && !latex.includes("=")) {
+      const [variable = "x"] = freeVariables(math.parse(latexToMath(latex)));
+      return verifyDerivative(math, variable, latex, answer);
+    }
+
+    return latex.includes("=") ? verifyEquation(math, latex, answer) : verifyExpression(math, latex, answer);
+  } catch (error) {
+    return unverified(error instanceof Error ? error.message : "Couldn't parse the math");
+  }
+}
+
+/** Verifies every problem in a result; hints have no answer to check. */
+export async function verifyResult(result: AnalysisResult): Promise<Verification[]> {
+  if (result.mode === "hint") {
+    return result.problems.map(() => unverified("Hints aren't checked"));
+  }
+  return Promise.all(result.problems.map((problem) => verifyProblem(problem)));
+}
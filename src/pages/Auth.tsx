@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { Brain, KeyRound, Loader2, Mail } from "lucide-react";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+
+const emailSchema = z.string().trim().email("Enter a valid email address");
+const passwordSchema = z.string().min(8, "Password must be at least 8 characters");
+
+const Auth = () => {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSignUp, setIsSignUp] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [magicLinkSentTo, setMagicLinkSentTo] = useState<string | null>(null);
+  const { user, isLoading } = useAuth();
+  const location = useLocation();
+  const { toast } = useToast();
+
+  const redirectTo = (location.state as { from?: { pathname: string } } | null)?.from?.pathname ?? "/";
+
+  if (!isLoading && user) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const showError = (title: string, description: string) => {
+    toast({ title, description, variant: "destructive" });
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedEmail = emailSchema.safeParse(email);
+    const parsedPassword = passwordSchema.safeParse(password);
+    if (!parsedEmail.success || !parsedPassword.success) {
+      showError(
+        "Check your details",
+        (parsedEmail.error ?? parsedPassword.error)?.issues[0]?.message ?? "Invalid details",
+      );
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (isSignUp) {
+        const { data, error } = await supabase.auth.signUp({
+          email: parsedEmail.data,
+          password: parsedPassword.data,
+          options: { emailRedirectTo: `${window.location.origin}/` },
+        });
+        if (error) throw error;
+        if (!data.session) {
+          toast({
+            title: "Check your inbox",
+            description: "Confirm your email address to finish creating your account.",
+          });
+        }
+      } else {
+        const { error } = await supabase.auth.signInWithPassword({
+          email: parsedEmail.data,
+          password: parsedPassword.data,
+        });
+        if (error) throw error;
+      }
+    } catch (error: unknown) {
+      console.error("Error with password auth:", error);
+      showError(
+        isSignUp ? "Sign up failed" : "Sign in failed",
+        error instanceof Error ? error.message : "Please try again.",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleMagicLinkSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedEmail = emailSchema.safeParse(email);
+    if (!parsedEmail.success) {
+      showError("Check your details", parsedEmail.error.issues[0].message);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.auth.signInWithOtp({
+        email: parsedEmail.data,
+        options: { emailRedirectTo: `${window.location.origin}${redirectTo}` },
+      });
+      if (error) throw error;
+      setMagicLinkSentTo(parsedEmail.data);
+    } catch (error: unknown) {
+      console.error("Error sending magic link:", error);
+      showError("Couldn't send magic link", error instanceof Error ? error.message : "Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background relative overflow-hidden flex items-center justify-center px-4">
+      <div className="absolute top-0 left-1/4 w-96 h-96 bg-primary/5 rounded-full blur-3xl animate-pulse-glow" />
+
+      <div className="relative z-10 w-full max-w-md animate-slide-up">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center gap-3 mb-3">
+            <div className="p-3 rounded-2xl bg-primary/10 glow">
+              <Brain className="w-8 h-8 text-primary" />
+            </div>
+            <h1 className="text-3xl font-display font-bold gradient-text">MathSolver AI</h1>
+          </div>
+          <p className="text-muted-foreground">Sign in to keep your solved problems</p>
+        </div>
+
+        <div className="glass rounded-xl p-6">
+          <Tabs defaultValue="password">
+            <TabsList className="grid grid-cols-2 w-full mb-4">
+              <TabsTrigger value="password" className="gap-2">
+                <KeyRound className="w-4 h-4" />
+                Password
+              </TabsTrigger>
+              <TabsTrigger value="magic-link" className="gap-2">
+                <Mail className="w-4 h-4" />
+                Magic link
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="password">
+              <form onSubmit={handlePasswordSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="password-email">Email</Label>
+                  <Input
+                    id="password-email"
+                    type="email"
+                    autoComplete="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="bg-background/50"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete={isSignUp ? "new-password" : "current-password"}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="bg-background/50"
+                  />
+                </div>
+                <Button type="submit" className="w-full gap-2" disabled={isSubmitting}>
+                  {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {isSignUp ? "Create account" : "Sign in"}
+                </Button>
+                <button
+                  type="button"
+                  onClick={() => setIsSignUp(!isSignUp)}
+                  className="w-full text-sm text-muted-foreground hover:text-primary transition-colors"
+                >
+                  {isSignUp ? "Already have an account? Sign in" : "New here? Create an account"}
+                </button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="magic-link">
+              {magicLinkSentTo ? (
+                <div className="text-center py-4 space-y-2">
+                  <Mail className="w-10 h-10 text-primary mx-auto" />
+                  <p className="font-display">Check your inbox</p>
+                  <p className="text-sm text-muted-foreground">
+                    We sent a sign-in link to {magicLinkSentTo}
+                  </p>
+                  <Button variant="ghost" size="sm" onClick={() => setMagicLinkSentTo(null)}>
+                    Use a different email
+                  </Button>
+                </div>
+              ) : (
+                <form onSubmit={handleMagicLinkSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="magic-link-email">Email</Label>
+                    <Input
+                      id="magic-link-email"
+                      type="email"
+                      autoComplete="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="bg-background/50"
+                    />
+                  </div>
+                  <Button type="submit" className="w-full gap-2" disabled={isSubmitting}>
+                    {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                    Email me a sign-in link
+                  </Button>
+                </form>
+              )}
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Auth;
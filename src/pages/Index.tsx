@@ -1,60 +1,112 @@
-import { useState, useCallback, useRef } from "react";
-import { Brain, Sparkles, Loader2 } from "lucide-react";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { Brain, Sparkles, Loader2, MonitorPlay, Monitor, Upload, ClipboardPaste, Camera, Keyboard } from "lucide-react";
 import { LiveScreenPreview, LiveScreenPreviewRef } from "@/components/LiveScreenPreview";
+import { ScreenCapture } from "@/components/ScreenCapture";
+import { ImageUpload } from "@/components/ImageUpload";
+import { PdfWorksheet } from "@/components/PdfWorksheet";
+import { BatchQueuePanel } from "@/components/BatchQueuePanel";
+import { PasteCapture } from "@/components/PasteCapture";
+import { CameraCapture } from "@/components/CameraCapture";
+import { EquationEditor } from "@/components/EquationEditor";
+import { TranscriptionReview } from "@/components/TranscriptionReview";
 import { SolutionDisplay } from "@/components/SolutionDisplay";
+import { GraphPanel } from "@/components/GraphPanel";
 import { HistoryPanel } from "@/components/HistoryPanel";
-import { DavidChat } from "@/components/DavidChat";
+import { DavidChat, DavidChatRef } from "@/components/DavidChat";
+import { UserMenu } from "@/components/UserMenu";
+import { QuotaIndicator } from "@/components/QuotaIndicator";
+import { ImagePrepPanel } from "@/components/ImagePrepPanel";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { useSolveHistory } from "@/hooks/use-solve-history";
+import { useQuota } from "@/hooks/use-quota";
+import { useBatchQueue } from "@/hooks/use-batch-queue";
+import { solveCapture, solveText, transcribeImage } from "@/lib/solve";
+import { getClipboardImage, isEditableTarget, loadClipboardImage } from "@/lib/clipboard";
+import { prepareImage } from "@/lib/image-prep";
+import {
+  AnalysisResult,
+  Annotation,
+  DetectedProblem,
+  HistoryItem,
+  SOLVE_MODES,
+  SolveMode,
+} from "@/lib/analysis";
 
-interface HistoryItem {
-  id: string;
+// The compression debug panel is for development, or `?debug` in production.
+const showDebugPanel = import.meta.env.DEV || new URLSearchParams(window.location.search).has("debug");
+
+// Phones and most tablets have no getDisplayMedia, so screen sharing is hidden there.
+const canShareScreen = !!navigator.mediaDevices?.getDisplayMedia;
+
+const ACCURACY_KEY = "mathmate:accuracy";
+
+/** A capture waiting for the student to check what was read from it. */
+interface PendingReview {
   image: string;
-  solution: string;
-  timestamp: Date;
+  annotations: Annotation[];
+  transcription: string;
 }
 
 const Index = () => {
   const [isLoading, setIsLoading] = useState(false);
-  const [solution, setSolution] = useState<string | null>(null);
+  const [loadingStep, setLoadingStep] = useState<"reading" | "solving">("solving");
+  const [review, setReview] = useState<PendingReview | null>(null);
+  const [solution, setSolution] = useState<AnalysisResult | null>(null);
+  const [mode, setMode] = useState<SolveMode>("answer");
+  const [accuracy, setAccuracy] = useState(() => localStorage.getItem(ACCURACY_KEY) === "true");
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
-  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [pdfFile, setPdfFile] = useState<File | null>(null);
+  const [tab, setTab] = useState(canShareScreen ? "live" : "camera");
   const livePreviewRef = useRef<LiveScreenPreviewRef>(null);
+  const davidChatRef = useRef<DavidChatRef>(null);
+  const davidSectionRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
+  const solveHistory = useSolveHistory();
+  const { saveSolve, clearHistory: clearSolves } = solveHistory;
+  const { refresh: refreshQuota } = useQuota();
+  const batchQueue = useBatchQueue();
+  const { addFiles: addToQueue } = batchQueue;
+
+  useEffect(() => {
+    localStorage.setItem(ACCURACY_KEY, String(accuracy));
+  }, [accuracy]);
 
   const clearSolution = useCallback(() => {
     setSolution(null);
+    setReview(null);
     setCapturedImage(null);
   }, []);
 
-  const analyzeMathProblem = useCallback(async (imageData: string) => {
+  // Solves a reviewed capture (with any marks drawn on it) or a typed LaTeX problem
+  const analyze = useCallback(async (
+    input: { image: string; text: string; transcription: string } | { text: string },
+    annotations: Annotation[] = [],
+  ) => {
+    setLoadingStep("solving");
     setIsLoading(true);
     setSolution(null);
-    setCapturedImage(imageData);
+    setReview(null);
+    setCapturedImage("image" in input ? input.image : null);
 
     try {
-      const { data, error } = await supabase.functions.invoke('analyze-math', {
-        body: { image: imageData, type: 'capture' }
-      });
-
-      if (error) {
-        throw error;
-      }
-
-      if (data.error) {
-        throw new Error(data.error);
-      }
-
-      setSolution(data.solution);
+      const result = "image" in input
+        ? await solveCapture(input.image, input.text, mode, { annotations, accuracy })
+        : await solveText(input.text, mode, { accuracy });
+      setSolution(result);
       
       // Add to history
-      const newItem: HistoryItem = {
-        id: Date.now().toString(),
-        image: imageData,
-        solution: data.solution,
-        timestamp: new Date(),
-      };
-      setHistory(prev => [newItem, ...prev].slice(0, 20));
+      saveSolve({ ...input, text: input.text || undefined, result }).catch((saveError) => {
+        console.error("Error saving solve:", saveError);
+        toast({
+          title: "Not saved to history",
+          description: "The answer is shown, but it couldn't be stored.",
+          variant: "destructive",
+        });
+      });
 
       toast({
         title: "Answer found!",
@@ -69,21 +121,128 @@ const Index = () => {
       });
     } finally {
       setIsLoading(false);
+      refreshQuota();
     }
-  }, [toast]);
+  }, [toast, mode, accuracy, saveSolve, refreshQuota]);
 
-  const handleHistorySelect = useCallback((item: HistoryItem) => {
-    setCapturedImage(item.image);
-    setSolution(item.solution);
+  // Captures are only read at first; solving waits until the student has
+  // checked the transcription
+  const analyzeMathProblem = useCallback(async (imageData: string, annotations: Annotation[] = []) => {
+    setLoadingStep("reading");
+    setIsLoading(true);
+    setSolution(null);
+    setReview(null);
+    setCapturedImage(imageData);
+
+    try {
+      const transcription = await transcribeImage(imageData, annotations);
+      setReview({ image: imageData, annotations, transcription });
+    } catch (error) {
+      console.error("Error reading math problem:", error);
+      toast({
+        title: "Couldn't read the problem",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+      refreshQuota();
+    }
+  }, [toast, refreshQuota]);
+
+  const confirmReview = useCallback((latex: string) => {
+    if (!review) return;
+    analyze({ image: review.image, text: latex, transcription: review.transcription }, review.annotations);
+  }, [analyze, review]);
+
+  const analyzeTypedProblem = useCallback((latex: string) => analyze({ text: latex }), [analyze]);
+
+  // Paste a screenshot or image link anywhere on the page: it goes to David's
+  // pending attachment when his input is focused, otherwise to the solver.
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (e.defaultPrevented || !e.clipboardData) return;
+      const toChat = davidChatRef.current?.isInputFocused() ?? false;
+      if (!toChat && (isEditableTarget(e.target) || isLoading)) return;
+
+      const image = getClipboardImage(e.clipboardData);
+      if (!image) return;
+      e.preventDefault();
+
+      loadClipboardImage(image)
+        .then((dataUrl) => prepareImage(dataUrl))
+        .then((dataUrl) => {
+          if (toChat) {
+            davidChatRef.current?.attachImage(dataUrl);
+          } else {
+            analyzeMathProblem(dataUrl);
+          }
+        })
+        .catch((error) => {
+          console.error("Error pasting image:", error);
+          toast({
+            title: "Couldn't paste that image",
+            description: error.message,
+            variant: "destructive",
+          });
+        });
+    };
+
+    window.addEventListener("paste", handlePaste);
+    return () => window.removeEventListener("paste", handlePaste);
+  }, [analyzeMathProblem, isLoading, toast]);
+
+  const askDavid = useCallback((image: string | undefined, problems: DetectedProblem[]) => {
+    davidChatRef.current?.askAbout(image, problems);
+    davidSectionRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, []);
+
+  const showSolution = useCallback((image: string | undefined, result: AnalysisResult) => {
+    setReview(null);
+    setCapturedImage(image ?? null);
+    setSolution(result);
   }, []);
 
-  const clearHistory = useCallback(() => {
-    setHistory([]);
-    toast({
-      title: "History cleared",
-      description: "All previous solutions have been removed",
-    });
-  }, [toast]);
+  const handleHistorySelect = useCallback((item: HistoryItem) => {
+    showSolution(item.image, item.result);
+  }, [showSolution]);
+
+  const closePdf = useCallback(() => setPdfFile(null), []);
+
+  const queueImages = useCallback((files: File[]) => {
+    addToQueue(files, mode, accuracy)
+      .then(() => {
+        toast({
+          title: `${files.length} images queued`,
+          description: "They'll be solved a couple at a time",
+        });
+      })
+      .catch((error) => {
+        console.error("Error queueing images:", error);
+        toast({
+          title: "Couldn't queue those images",
+          description: "Please try again.",
+          variant: "destructive",
+        });
+      });
+  }, [addToQueue, mode, accuracy, toast]);
+
+  const clearHistory = useCallback(async () => {
+    try {
+      await clearSolves();
+      toast({
+        title: "History cleared",
+        description: "All previous solutions have been removed",
+      });
+    } catch (error) {
+      console.error("Error clearing history:", error);
+      toast({
+        title: "Couldn't clear history",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [toast, clearSolves]);
 
   return (
     <div className="min-h-screen bg-background relative overflow-hidden">
@@ -93,7 +252,11 @@ const Index = () => {
       
       <div className="relative z-10 container mx-auto px-4 py-8 max-w-7xl">
         {/* Header */}
-        <header className="text-center mb-8 animate-slide-up">
+        <header className="relative text-center mb-8 animate-slide-up">
+          <div className="absolute top-0 right-0 flex items-center gap-3">
+            <QuotaIndicator />
+            <UserMenu />
+          </div>
           <div className="inline-flex items-center gap-3 mb-4">
             <div className="p-3 rounded-2xl bg-primary/10 glow">
               <Brain className="w-10 h-10 text-primary" />
@@ -103,7 +266,7 @@ const Index = () => {
             </h1>
           </div>
           <p className="text-lg text-muted-foreground max-w-xl mx-auto">
-            Share your screen to get instant answers, or chat with David for help
+            Share your screen, upload or photograph a problem to get instant answers, or chat with David for help
           </p>
         </header>
 
@@ -111,46 +274,184 @@ const Index = () => {
           {/* Live Preview */}
           <div className="lg:col-span-2 space-y-6 animate-slide-up" style={{ animationDelay: '0.1s' }}>
             <div>
-              <div className="flex items-center gap-2 mb-4">
-                <Sparkles className="w-5 h-5 text-primary" />
-                <h2 className="font-display text-xl">Live Screen</h2>
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div className="flex items-center gap-2">
+                  <Sparkles className="w-5 h-5 text-primary" />
+                  <h2 className="font-display text-xl">Capture</h2>
+                </div>
+                <div className="flex flex-wrap items-center gap-4">
+                  <div
+                    className="flex items-center gap-2"
+                    title="Solve each problem several times, with different models, and keep the answer most of them agree on. Slower."
+                  >
+                    <Switch
+                      id="accuracy-mode"
+                      checked={accuracy && mode !== "hint"}
+                      onCheckedChange={setAccuracy}
+                      disabled={isLoading || mode === "hint"}
+                    />
+                    <Label htmlFor="accuracy-mode" className="text-xs font-display">
+                      Accuracy
+                    </Label>
+                  </div>
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    variant="outline"
+                    value={mode}
+                    onValueChange={(value) => value && setMode(value as SolveMode)}
+                    disabled={isLoading}
+                  >
+                    {SOLVE_MODES.map((option) => (
+                      <ToggleGroupItem
+                        key={option.value}
+                        value={option.value}
+                        title={option.description}
+                        className="font-display text-xs"
+                      >
+                        {option.label}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
               </div>
               
-              <LiveScreenPreview 
-                ref={livePreviewRef}
-                onCapture={analyzeMathProblem}
-                isLoading={isLoading}
-                onClearSolution={clearSolution}
-              />
+              <Tabs value={tab} onValueChange={setTab}>
+                <TabsList className="w-full justify-start overflow-x-auto mb-4">
+                  {canShareScreen && (
+                    <>
+                      <TabsTrigger value="live" className="gap-2">
+                        <MonitorPlay className="w-4 h-4" />
+                        Live
+                      </TabsTrigger>
+                      <TabsTrigger value="grab" className="gap-2">
+                        <Monitor className="w-4 h-4" />
+                        Screen grab
+                      </TabsTrigger>
+                    </>
+                  )}
+                  <TabsTrigger value="upload" className="gap-2">
+                    <Upload className="w-4 h-4" />
+                    Upload
+                  </TabsTrigger>
+                  <TabsTrigger value="paste" className="gap-2">
+                    <ClipboardPaste className="w-4 h-4" />
+                    Paste
+                  </TabsTrigger>
+                  <TabsTrigger value="camera" className="gap-2">
+                    <Camera className="w-4 h-4" />
+                    Camera
+                  </TabsTrigger>
+                  <TabsTrigger value="type" className="gap-2">
+                    <Keyboard className="w-4 h-4" />
+                    Type
+                  </TabsTrigger>
+                </TabsList>
+
+                {/* Screen tabs stay mounted so switching tabs doesn't drop an active share */}
+                {canShareScreen && (
+                  <>
+                    <TabsContent value="live" forceMount className="mt-0 data-[state=inactive]:hidden">
+                      <LiveScreenPreview 
+                        ref={livePreviewRef}
+                        onCapture={analyzeMathProblem}
+                        isLoading={isLoading}
+                        onClearSolution={clearSolution}
+                        paused={review !== null}
+                        isActive={tab === "live"}
+                      />
+                    </TabsContent>
+                    <TabsContent value="grab" forceMount className="mt-0 data-[state=inactive]:hidden">
+                      <ScreenCapture onCapture={analyzeMathProblem} isLoading={isLoading} />
+                    </TabsContent>
+                  </>
+                )}
+                {/* Also kept mounted, so a worksheet run isn't torn down by switching tabs */}
+                <TabsContent value="upload" forceMount className="mt-0 data-[state=inactive]:hidden">
+                  {pdfFile ? (
+                    <PdfWorksheet file={pdfFile} mode={mode} accuracy={accuracy} onClose={closePdf} onShowResult={showSolution} />
+                  ) : (
+                    <ImageUpload
+                      onImageSelect={analyzeMathProblem}
+                      onPdfSelect={setPdfFile}
+                      onImagesSelect={queueImages}
+                      isLoading={isLoading}
+                    />
+                  )}
+                </TabsContent>
+                <TabsContent value="paste" className="mt-0">
+                  <PasteCapture onImageSelect={analyzeMathProblem} isLoading={isLoading} />
+                </TabsContent>
+                <TabsContent value="camera" className="mt-0">
+                  <CameraCapture onCapture={analyzeMathProblem} isLoading={isLoading} />
+                </TabsContent>
+                <TabsContent value="type" className="mt-0">
+                  <EquationEditor onSubmit={analyzeTypedProblem} isLoading={isLoading} />
+                </TabsContent>
+              </Tabs>
             </div>
 
+            {batchQueue.items.length > 0 && (
+              <BatchQueuePanel
+                items={batchQueue.items}
+                onShow={showSolution}
+                onRetry={batchQueue.retry}
+                onRemove={batchQueue.remove}
+                onClearFinished={batchQueue.clearFinished}
+              />
+            )}
+
+            {showDebugPanel && <ImagePrepPanel />}
+
             {/* Loading state */}
             {isLoading && (
               <div className="glass rounded-xl p-8 text-center animate-fade-in">
                 <Loader2 className="w-12 h-12 text-primary mx-auto animate-spin mb-4" />
-                <p className="font-display text-lg">Finding the answer...</p>
+                <p className="font-display text-lg">
+                  {loadingStep === "reading" ? "Reading the problem..." : "Finding the answer..."}
+                </p>
               </div>
             )}
 
+            {review && !isLoading && (
+              <TranscriptionReview
+                image={review.image}
+                transcription={review.transcription}
+                onConfirm={confirmReview}
+                onCancel={clearSolution}
+              />
+            )}
+
             {/* Solution display */}
             {solution && !isLoading && (
               <SolutionDisplay 
-                solution={solution}
+                result={solution}
                 capturedImage={capturedImage || undefined}
+                onAskDavid={(problems) => askDavid(capturedImage ?? undefined, problems)}
               />
             )}
+
+            {solution && !isLoading && <GraphPanel problems={solution.problems} />}
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6 animate-slide-up" style={{ animationDelay: '0.2s' }}>
             {/* David Chat */}
-            <DavidChat />
+            <div ref={davidSectionRef}>
+              <DavidChat ref={davidChatRef} />
+            </div>
             
             {/* History */}
             <HistoryPanel 
-              history={history}
+              history={solveHistory.history}
+              total={solveHistory.total}
+              isLoading={solveHistory.isLoading}
+              hasMore={solveHistory.hasMore}
+              isLoadingMore={solveHistory.isLoadingMore}
+              onLoadMore={solveHistory.loadMore}
               onSelect={handleHistorySelect}
               onClear={clearHistory}
+              onAskDavid={(item) => askDavid(item.image, item.result.problems)}
             />
           </div>
         </div>
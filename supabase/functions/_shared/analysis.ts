@@ -0,0 +1,78 @@
+// Shared between the analyze-math edge function and the frontend (imported
+// there via the "@shared" alias), so keep this file free of Deno and DOM APIs.
+import { z } from "zod";
+
+export const solveModeSchema = z.enum(["answer", "steps", "hint"]);
+
+export const solutionStepSchema = z.object({
+  title: z.string(),
+  content: z.string(),
+});
+
+/** Bounding box as fractions (0 to 1) of the captured image's width and height. */
+export const problemRegionSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0).max(1),
+  height: z.number().min(0).max(1),
+});
+
+export const annotationToolSchema = z.enum(["pen", "highlighter", "rectangle", "arrow"]);
+
+/** A mark the student drew on the capture to point out what to solve. */
+export const annotationSchema = z.object({
+  /** 1-based label drawn next to the mark in the captured image. */
+  id: z.number().int().positive(),
+  tool: annotationToolSchema,
+  /** Bounds of the mark; for arrows, the area around the arrowhead. */
+  region: problemRegionSchema,
+});
+
+/** An earlier answer that failed the client-side algebra check, sent back when re-solving. */
+export const rejectedAnswerSchema = z.object({
+  latex: z.string(),
+  answer: z.string(),
+});
+
+/** The problems read from a capture, before solving, for the student to check. */
+export const transcriptionSchema = z.object({
+  /** LaTeX of every problem read, one per line, without delimiters. */
+  latex: z.string(),
+});
+
+export const detectedProblemSchema = z.object({
+  /** Where the problem sits in the captured image. */
+  region: problemRegionSchema,
+  /** The problem as read from the image, in plain text. */
+  question: z.string(),
+  /** LaTeX of the recognized expression, without delimiters. */
+  latex: z.string(),
+  answer: z.string().min(1),
+  /** Model's self-reported confidence, 0 to 1. */
+  confidence: z.number().min(0).max(1),
+  topics: z.array(z.string()),
+  steps: z.array(solutionStepSchema),
+  /** Label of the student's mark this problem belongs to, when the capture was annotated. */
+  annotation: z.number().int().positive().nullable().optional(),
+  /** Share of accuracy-mode samples that gave this answer, 0 to 1. */
+  agreement: z.number().min(0).max(1).optional(),
+});
+
+export const analysisResultSchema = z.object({
+  mode: solveModeSchema,
+  problems: z.array(detectedProblemSchema).min(1),
+  /** How many independent solutions were compared, in accuracy mode. */
+  samples: z.number().int().positive().optional(),
+  /** How many solutions accuracy mode asked for; more than `samples` when some solvers failed. */
+  requested: z.number().int().positive().optional(),
+});
+
+export type SolveMode = z.infer<typeof solveModeSchema>;
+export type SolutionStep = z.infer<typeof solutionStepSchema>;
+export type ProblemRegion = z.infer<typeof problemRegionSchema>;
+export type AnnotationTool = z.infer<typeof annotationToolSchema>;
+export type Annotation = z.infer<typeof annotationSchema>;
+export type RejectedAnswer = z.infer<typeof rejectedAnswerSchema>;
+export type Transcription = z.infer<typeof transcriptionSchema>;
+export type DetectedProblem = z.infer<typeof detectedProblemSchema>;
+export type AnalysisResult = z.infer<typeof analysisResultSchema>;
@@ -0,0 +1,68 @@
+import { createClient, User } from "@supabase/supabase-js";
+import { jsonResponse } from "./cors.ts";
+
+export interface QuotaStatus {
+  remaining: number;
+  dailyLimit: number;
+}
+
+type QuotaCheck =
+  | { ok: true; user: User; quota: QuotaStatus }
+  | { ok: false; response: Response };
+
+/**
+ * Resolves the calling user from the request's JWT and spends one unit of
+ * their daily quota for `functionName`. On failure, `response` is the JSON
+ * error to return as-is.
+ */
+export const consumeQuota = async (req: Request, functionName: string): Promise<QuotaCheck> => {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return { ok: false, response: jsonResponse({ error: "Please sign in to continue." }, 401) };
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: authHeader } } },
+  );
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return { ok: false, response: jsonResponse({ error: "Please sign in to continue." }, 401) };
+  }
+
+  const { data, error } = await supabase.rpc('consume_quota', { _function_name: functionName }).single();
+  if (error || !data) {
+    throw new Error(`Quota check failed: ${error?.message ?? 'no result'}`);
+  }
+
+  const { allowed, remaining, daily_limit } = data as { allowed: boolean; remaining: number; daily_limit: number };
+  const quota = { remaining, dailyLimit: daily_limit };
+
+  if (!allowed) {
+    console.log(`Daily quota reached for ${functionName}, user:`, user.id);
+    return {
+      ok: false,
+      response: jsonResponse(
+        { error: `Daily limit of ${daily_limit} reached. Your quota resets tomorrow.`, quota },
+        429,
+      ),
+    };
+  }
+
+  return { ok: true, user, quota };
+};
+
+/**
+ * Gives back the unit consumeQuota spent when the request then failed
+ * upstream, so a gateway error doesn't cost the student. Failures are only
+ * logged, since the original error is what the caller should see.
+ */
+export const refundQuota = async (userId: string, functionName: string) => {
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { error } = await admin.rpc('refund_quota', { _user_id: userId, _function_name: functionName });
+  if (error) {
+    console.error(`Quota refund failed for ${functionName}, user:`, userId, error.message);
+  }
+};
@@ -1,8 +1,351 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { z } from "zod";
+import {
+  analysisResultSchema,
+  AnalysisResult,
+  Annotation,
+  annotationSchema,
+  DetectedProblem,
+  ProblemRegion,
+  RejectedAnswer,
+  rejectedAnswerSchema,
+  SolveMode,
+  solveModeSchema,
+  Transcription,
+} from "../_shared/analysis.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { consumeQuota, refundQuota } from "../_shared/quota.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+const DEFAULT_MODEL = "google/gemini-2.5-flash";
+// Typed problems need no vision, so a smaller, cheaper model is enough
+const TEXT_MODEL = "google/gemini-2.5-flash-lite";
+const MAX_TEXT_LENGTH = 2000;
+// Transcriptions spend their own quota, so checking a reading doesn't cost a solve
+const TRANSCRIBE_QUOTA = 'analyze-math:transcribe';
+// Accuracy mode makes one gateway call per model, so it is limited separately
+const ACCURACY_QUOTA = 'analyze-math:accuracy';
+
+// Accuracy mode solves the image once per model and votes on the answers.
+// Mixing models keeps one model's systematic misreading from winning the vote.
+const ACCURACY_MODELS = ["google/gemini-2.5-flash", "google/gemini-2.5-pro", "openai/gpt-5-mini"];
+
+class GatewayError extends Error {
+  constructor(public status: number) {
+    super(`AI gateway error: ${status}`);
+  }
+}
+
+// Rejected request bodies, answered with a 400 instead of a server error
+class BadRequestError extends Error {}
+
+const gatewayErrorMessages: Record<number, string> = {
+  429: "Rate limit exceeded. Please try again in a moment.",
+  402: "Usage limit reached. Please add credits to continue.",
+};
+
+const modePrompts: Record<SolveMode, { instructions: string; request: string }> = {
+  answer: {
+    instructions: 'Provide ONLY the final answer. No explanations, no tips - "steps" must be an empty array.',
+    request: 'Solve this and give me just the answer.',
+  },
+  steps: {
+    instructions: 'Solve it completely and show your work as a numbered walkthrough. Each step gets a short title and a concise explanation of what is done and why. Finish with the final answer.',
+    request: 'Solve this and walk me through every step.',
+  },
+  hint: {
+    instructions: 'Do NOT reveal the final answer. Give 2-4 progressive hints, each nudging the student one step further without doing the work for them. Set "answer" to a one-sentence summary of the approach, not the result.',
+    request: 'Give me hints for this problem without solving it.',
+  },
+};
+
+const annotationToolNames: Record<Annotation['tool'], string> = {
+  pen: 'circled or underlined in pen',
+  highlighter: 'highlighted',
+  rectangle: 'boxed',
+  arrow: 'pointed at with an arrow',
+};
+
+const formatRegion = ({ x, y, width, height }: ProblemRegion) =>
+  `x=${x.toFixed(2)}, y=${y.toFixed(2)}, width=${width.toFixed(2)}, height=${height.toFixed(2)}`;
+
+const listAnnotations = (annotations: Annotation[]) => {
+  const lines = annotations.map(
+    (mark) => `${mark.id}. ${annotationToolNames[mark.tool]} at ${formatRegion(mark.region)}`,
+  );
+
+  return `The student drew ${annotations.length} mark(s) on the image, each labelled with a small numbered badge. Regions are fractions of the image size:
+${lines.join('\n')}`;
+};
+
+// Extra system instructions when the student marked up the capture: only the
+// marked problems should be solved, and each answer should name its mark.
+const describeAnnotations = (annotations: Annotation[]) => {
+  if (annotations.length === 0) return '';
+
+  return `
+
+${listAnnotations(annotations)}
+Solve ONLY the problems these marks circle, highlight, box or point at, and ignore every other problem in the image. Add "annotation": <mark number> to each problem to say which mark it belongs to. If one mark covers several problems, give each its own entry with the same mark number.`;
+};
+
+// Extra system instructions when re-solving after the client's algebra check
+// found answers that don't satisfy the problem.
+const describeRejected = (rejected: RejectedAnswer[]) => {
+  if (rejected.length === 0) return '';
+
+  const lines = rejected.map((item) => `- ${item.latex || '(unread problem)'}: ${item.answer}`);
+
+  return `
+
+A previous attempt at this image gave the answers below, and substituting them back showed they are WRONG:
+${lines.join('\n')}
+Re-read those problems carefully and solve them again from scratch. Do not repeat these answers.`;
+};
+
+// How the problem reaches the model: what to look at, and how to segment it.
+const describeInput = (hasImage: boolean, hasText: boolean) => {
+  if (!hasImage) {
+    return {
+      intro: 'Analyze the math problem the student typed, given as LaTeX.',
+      segmenting: 'There is no image, so set every "region" to {"x": 0, "y": 0, "width": 1, "height": 1}. If the text contains several problems, add one entry per problem in order.',
+    };
+  }
+  return {
+    intro: hasText
+      ? 'Analyze the math problem shown in the image. The student also typed it out as LaTeX, or checked and corrected a transcription of it; where the two differ, trust the LaTeX.'
+      : 'Analyze the math problem shown in the image.',
+    segmenting: 'If the image contains several problems (for example a whole worksheet), segment it: add one entry per problem in reading order, each with a tight region around that problem only. Skip instructions, headings and anything that is not a problem.',
+  };
+};
+
+// The transcription phase only reads the capture, so the student can fix a
+// misread digit or sign before anything is solved.
+const transcriptionPrompt = (annotations: Annotation[]) => `You transcribe handwritten and printed math. Write out every math problem in the image as LaTeX, exactly as written: do not solve, simplify or correct anything. Put each problem on its own line, in reading order. Skip instructions, headings and anything that is not a problem. Where a symbol is hard to read, give your best reading.
+
+Respond with a single JSON object and nothing else, in this exact shape:
+{"latex": string}        // LaTeX with no $ delimiters, one problem per line${annotations.length === 0 ? '' : `
+
+${listAnnotations(annotations)}
+Transcribe ONLY the problems these marks circle, highlight, box or point at, and ignore every other problem in the image.`}`;
+
+const toText = (value: unknown) =>
+  value == null ? '' : typeof value === 'string' ? value.trim() : JSON.stringify(value);
+
+// Accepts "85%", "0.85" or 85 and normalizes to 0..1; anything unreadable is 0.
+const toConfidence = (value: unknown) => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  if (!Number.isFinite(parsed)) return 0;
+  const ratio = parsed > 1 ? parsed / 100 : parsed;
+  return Math.min(1, Math.max(0, ratio));
+};
+
+const toTopics = (value: unknown) => {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return list.map(toText).filter(Boolean);
+};
+
+const toSteps = (value: unknown) =>
+  (Array.isArray(value) ? value : [])
+    .map((step) =>
+      typeof step === 'string'
+        ? { title: '', content: step.trim() }
+        : { title: toText(step?.title), content: toText(step?.content) },
+    )
+    .filter((step) => step.title || step.content);
+
+const FULL_IMAGE: ProblemRegion = { x: 0, y: 0, width: 1, height: 1 };
+
+// Accepts {x, y, width, height} as fractions or on Gemini's native 0-1000 grid,
+// or a [ymin, xmin, ymax, xmax] box_2d array. Falls back to the whole image.
+const toRegion = (value: unknown): ProblemRegion => {
+  let box: number[] | null = null;
+  if (Array.isArray(value) && value.length === 4) {
+    const [ymin, xmin, ymax, xmax] = value.map(Number);
+    box = [xmin, ymin, xmax - xmin, ymax - ymin];
+  } else if (value && typeof value === 'object') {
+    const { x, y, width, height } = value as Record<string, unknown>;
+    box = [x, y, width, height].map(Number);
+  }
+  if (!box || box.some((n) => !Number.isFinite(n) || n < 0)) return FULL_IMAGE;
+
+  const scale = box.some((n) => n > 1) ? 1000 : 1;
+  const [x, y, width, height] = box.map((n) => Math.min(1, n / scale));
+  if (width === 0 || height === 0) return FULL_IMAGE;
+  return { x, y, width: Math.min(width, 1 - x), height: Math.min(height, 1 - y) };
+};
+
+// Lenient mirror of detectedProblemSchema used to coerce near-miss model output
+// (stringly numbers, delimited LaTeX, missing arrays) into the strict shape.
+const repairedProblemSchema = z.object({
+  region: z.unknown().transform(toRegion),
+  question: z.unknown().transform(toText),
+  latex: z.unknown().transform((value) => toText(value).replace(/^\$+|\$+$/g, '').trim()),
+  answer: z.unknown().transform(toText),
+  confidence: z.unknown().transform(toConfidence),
+  topics: z.unknown().transform(toTopics),
+  steps: z.unknown().transform(toSteps),
+  annotation: z.unknown().transform((value) => {
+    const parsed = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+  }),
+});
+
+// The model occasionally wraps its JSON in code fences, returns a single
+// problem without the "problems" array, or ignores the format entirely.
+const parseAnalysis = (
+  content: string | undefined,
+  mode: SolveMode,
+  annotationIds: number[],
+): AnalysisResult | null => {
+  const raw = (content ?? '').trim();
+  const unfenced = raw.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(unfenced);
+  } catch {
+    parsed = raw ? { problems: [{ answer: raw }] } : {};
+  }
+
+  const candidates = Array.isArray((parsed as { problems?: unknown })?.problems)
+    ? (parsed as { problems: unknown[] }).problems
+    : [parsed];
+
+  const problems = candidates.flatMap((candidate) => {
+    const repaired = repairedProblemSchema.safeParse(candidate ?? {});
+    if (!repaired.success || !repaired.data.answer) return [];
+    // Drop references to marks the student never drew
+    const { annotation } = repaired.data;
+    return [{ ...repaired.data, annotation: annotation && annotationIds.includes(annotation) ? annotation : null }];
+  });
+
+  const result = analysisResultSchema.safeParse({ mode, problems });
+  if (!result.success) {
+    console.error('Unrepairable model output:', result.error.message, raw);
+    return null;
+  }
+  return result.data;
+};
+
+const parseTranscription = (content: string | undefined): Transcription => {
+  const raw = (content ?? '').trim();
+  const unfenced = raw.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let latex: unknown;
+  try {
+    latex = (JSON.parse(unfenced) as { latex?: unknown })?.latex;
+  } catch {
+    latex = unfenced;
+  }
+
+  return {
+    latex: toText(latex)
+      .split('\n')
+      .map((line) => line.trim().replace(/^\$+|\$+$/g, '').trim())
+      .filter(Boolean)
+      .join('\n'),
+  };
+};
+
+// Reduces an answer to a key that equal answers share: no delimiters, spacing,
+// \boxed or \left/\right, one spelling per number, and roots in sorted order.
+const normalizeAnswer = (answer: string) =>
+  answer
+    .replace(/\$+/g, ' ')
+    .replace(/\\boxed\{(.*)\}/g, '$1')
+    .replace(/\\(left|right|displaystyle|,|;|!|quad|qquad)/g, ' ')
+    .replace(/\\text\{\s*(or|and)\s*\}/gi, ',')
+    .split(/[,;]|\s(?:or|and)\s/i)
+    .map((part) => {
+      const compact = part
+        .replace(/\\[dt]frac/g, '\\frac')
+        .replace(/\\text\{([^}]*)\}/g, '$1')
+        .replace(/\s+/g, '')
+        .replace(/\.$/, '')
+        .toLowerCase();
+      // "x=0.50" and "x=.5" should match
+      const [, name = '', value] = /^([a-z]=)?(.*)$/.exec(compact)!;
+      const number = Number(value);
+      return value && Number.isFinite(number) ? `${name}${number}` : compact;
+    })
+    .filter(Boolean)
+    .sort()
+    .join(',');
+
+const overlap = (a: ProblemRegion, b: ProblemRegion) => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const shared = width * height;
+  return shared / (a.width * a.height + b.width * b.height - shared);
+};
+
+// Finds the same problem in another sample: by position in the list when both
+// segmented the image alike, otherwise by the best overlapping region.
+const findMatch = (problem: DetectedProblem, index: number, count: number, others: DetectedProblem[]) => {
+  if (others.length === count) return others[index];
+  const best = others.reduce<DetectedProblem | undefined>(
+    (current, other) => (!current || overlap(problem.region, other.region) > overlap(problem.region, current.region) ? other : current),
+    undefined,
+  );
+  return best && overlap(problem.region, best.region) >= 0.3 ? best : undefined;
+};
+
+// Majority vote per problem of the first sample. Agreement is the share of all
+// requested samples that gave the winning answer, so a missing match or a
+// failed solver counts against it.
+const voteOnAnswers = (samples: AnalysisResult[], requested: number): AnalysisResult => {
+  const [primary, ...others] = samples;
+  const count = primary.problems.length;
+
+  const problems = primary.problems.map((problem, index) => {
+    const candidates = [
+      problem,
+      ...others.flatMap((other) => findMatch(problem, index, count, other.problems) ?? []),
+    ];
+    const groups = new Map<string, DetectedProblem[]>();
+    candidates.forEach((candidate) => {
+      const key = normalizeAnswer(candidate.answer);
+      groups.set(key, [...(groups.get(key) ?? []), candidate]);
+    });
+    // Ties go to the group found first, which is the one holding the primary answer
+    const winner = [...groups.values()].reduce((best, group) => (group.length > best.length ? group : best));
+    const agreement = winner.length / requested;
+
+    return {
+      ...winner[0],
+      region: problem.region,
+      annotation: problem.annotation,
+      confidence: Math.min(winner[0].confidence, agreement),
+      agreement,
+    };
+  });
+
+  return { ...primary, problems, samples: samples.length, requested };
+};
+
+const requestCompletion = async (apiKey: string, model: string, messages: unknown[]) => {
+  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model,
+      response_format: { type: "json_object" },
+      messages,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("AI gateway error:", model, response.status, errorText);
+    throw new GatewayError(response.status);
+  }
+
+  const data = await response.json();
+  return data.choices?.[0]?.message?.content as string | undefined;
 };
 
 serve(async (req) => {
@@ -10,11 +353,42 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // Set once quota is spent, so a failure after that point can refund it
+  let charged: { userId: string; functionName: string } | null = null;
+  const refund = () => (charged ? refundQuota(charged.userId, charged.functionName) : Promise.resolve());
+
   try {
-    const { image, type } = await req.json();
-    
-    if (!image) {
-      throw new Error('No image data provided');
+    const body = await req.json().catch(() => {
+      throw new BadRequestError('Request body must be JSON');
+    });
+    const { phase = 'solve', image, text, type, annotations = [], rejected = [], accuracy = false } = body;
+
+    if (phase !== 'solve' && phase !== 'transcribe') {
+      throw new BadRequestError(`Unknown phase: ${phase}`);
+    }
+
+    if (phase === 'transcribe' ? !image : !image && !text) {
+      throw new BadRequestError(phase === 'transcribe' ? 'No image provided' : 'No image or text provided');
+    }
+
+    if (text !== undefined && (typeof text !== 'string' || text.length > MAX_TEXT_LENGTH)) {
+      throw new BadRequestError(`Typed problems must be text of at most ${MAX_TEXT_LENGTH} characters`);
+    }
+
+    const solveMode = solveModeSchema.safeParse(body.mode ?? 'answer');
+    if (!solveMode.success) {
+      throw new BadRequestError(`Unknown solve mode: ${body.mode}`);
+    }
+    const mode = solveMode.data;
+
+    const marks = z.array(annotationSchema).safeParse(annotations);
+    if (!marks.success) {
+      throw new BadRequestError('Invalid annotations');
+    }
+
+    const rejectedAnswers = z.array(rejectedAnswerSchema).safeParse(rejected);
+    if (!rejectedAnswers.success) {
+      throw new BadRequestError('Invalid rejected answers');
     }
 
     const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
@@ -22,68 +396,111 @@ serve(async (req) => {
       throw new Error('LOVABLE_API_KEY is not configured');
     }
 
-    console.log('Analyzing math problem, type:', type);
-
-    const systemPrompt = `You are an expert math solver. Analyze the math problem shown in the image and provide ONLY the final answer. No explanations, no steps, no tips - just the answer. If there are multiple problems, list each answer on a new line with the problem number. Be direct and concise.`;
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { 
-            role: "user", 
-            content: [
-              {
-                type: "text",
-                text: "Solve this and give me just the answer."
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: image
-                }
-              }
-            ]
-          }
-        ],
-      }),
-    });
+    // Hints have no answer to vote on, so accuracy mode only applies to solutions
+    const isAccurate = phase === 'solve' && accuracy === true && mode !== 'hint';
+    const quotaName = phase === 'transcribe' ? TRANSCRIBE_QUOTA : isAccurate ? ACCURACY_QUOTA : 'analyze-math';
+    const quotaCheck = await consumeQuota(req, quotaName);
+    if (!quotaCheck.ok) {
+      return quotaCheck.response;
+    }
+    charged = { userId: quotaCheck.user.id, functionName: quotaName };
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: "Usage limit reached. Please add credits to continue." }), {
-          status: 402,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+    if (phase === 'transcribe') {
+      console.log('Transcribing math problem, marks:', marks.data.length);
+
+      const content = await requestCompletion(LOVABLE_API_KEY, DEFAULT_MODEL, [
+        { role: "system", content: transcriptionPrompt(marks.data) },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: 'Transcribe the problems in this image.' },
+            { type: "image_url", image_url: { url: image } },
+          ],
+        },
+      ]);
+      const transcription = parseTranscription(content);
+
+      console.log('Successfully transcribed math problem, characters:', transcription.latex.length);
+
+      return new Response(JSON.stringify(transcription), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    console.log('Analyzing math problem, type:', type, 'mode:', mode, 'marks:', marks.data.length, 'rejected:', rejectedAnswers.data.length, 'accuracy:', accuracy);
+
+    const input = describeInput(!!image, !!text);
+    const systemPrompt = `You are an expert math solver. ${input.intro} ${modePrompts[mode].instructions}
+
+Respond with a single JSON object and nothing else, in this exact shape:
+{"problems": [{
+  "region": {"x": number, "y": number, "width": number, "height": number},
+                           // bounding box of this problem, as fractions (0 to 1) of the image size
+  "question": string,      // the problem as written, in plain text
+  "latex": string,         // LaTeX of the recognized expression, no $ delimiters
+  "answer": string,
+  "confidence": number,    // 0 to 1, how sure you are of the answer
+  "topics": string[],      // e.g. ["algebra", "quadratic equations"]
+  "steps": [{"title": string, "content": string}]
+}]}
+
+Write any math inside "answer" and "steps" as LaTeX wrapped in $...$ for inline math or $$...$$ for display math - never \\( \\) or \\[ \\]. The "latex" field is plain LaTeX with no delimiters.
+
+${input.segmenting}${describeAnnotations(marks.data)}${describeRejected(rejectedAnswers.data)}`;
+
+    const messages = [
+      { role: "system", content: systemPrompt },
+      { 
+        role: "user", 
+        content: [
+          {
+            type: "text",
+            text: modePrompts[mode].request
+          },
+          ...(text ? [{ type: "text", text: `Problem (LaTeX): ${text}` }] : []),
+          ...(image ? [{ type: "image_url", image_url: { url: image } }] : []),
+        ]
       }
-      
-      throw new Error(`AI gateway error: ${response.status}`);
+    ];
+
+    const models = isAccurate ? ACCURACY_MODELS : [image ? DEFAULT_MODEL : TEXT_MODEL];
+    const annotationIds = marks.data.map((mark) => mark.id);
+    const settled = await Promise.allSettled(
+      models.map(async (model) => parseAnalysis(await requestCompletion(LOVABLE_API_KEY, model, messages), mode, annotationIds)),
+    );
+
+    const samples = settled.flatMap((outcome) => (outcome.status === 'fulfilled' && outcome.value ? [outcome.value] : []));
+    if (samples.length === 0) {
+      const failure = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+      if (failure) throw failure.reason;
+      await refund();
+      return new Response(JSON.stringify({ error: "Couldn't read the solver's answer. Please try again." }), {
+        status: 502,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
     }
 
-    const data = await response.json();
-    const solution = data.choices?.[0]?.message?.content;
+    const analysis = models.length > 1 ? voteOnAnswers(samples, models.length) : samples[0];
 
-    console.log('Successfully analyzed math problem');
+    console.log('Successfully analyzed math problem, problems found:', analysis.problems.length, 'samples:', samples.length);
 
-    return new Response(JSON.stringify({ solution }), {
+    return new Response(JSON.stringify(analysis), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error: unknown) {
+    await refund();
+    if (error instanceof BadRequestError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    if (error instanceof GatewayError && error.status in gatewayErrorMessages) {
+      return new Response(JSON.stringify({ error: gatewayErrorMessages[error.status] }), {
+        status: error.status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
     console.error("Error in analyze-math function:", error);
     const message = error instanceof Error ? error.message : "An error occurred";
     return new Response(JSON.stringify({ error: message }), {
@@ -1,8 +1,61 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "@supabase/supabase-js";
+import { corsHeaders } from "../_shared/cors.ts";
+import { consumeQuota } from "../_shared/quota.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+const CHAT_IMAGES_BUCKET = 'chat-images';
+// Only needs to outlive this one gateway request
+const SIGNED_URL_TTL = 10 * 60;
+
+interface IncomingMessage {
+  role: string;
+  content: string;
+  /** A data URL, for images attached in this session. */
+  image?: string;
+  /** Storage path of an image saved with an earlier message. */
+  imagePath?: string;
+}
+
+// Saved images arrive as storage paths rather than the client's signed URLs,
+// which expire while a thread sits idle, and are signed fresh for each request.
+// Signing as the student means storage policies keep other users' images out.
+const signStoredImages = async (req: Request, messages: IncomingMessage[]) => {
+  const paths = messages.flatMap((m) => (m.imagePath ? [m.imagePath] : []));
+  if (paths.length === 0) return messages;
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: req.headers.get('Authorization')! } } },
+  );
+  const { data, error } = await supabase.storage.from(CHAT_IMAGES_BUCKET).createSignedUrls(paths, SIGNED_URL_TTL);
+  if (error) throw new Error(`Couldn't load chat images: ${error.message}`);
+
+  const urls = new Map(data.flatMap(({ path, signedUrl }) => (path && signedUrl ? [[path, signedUrl] as const] : [])));
+  return messages.map(({ imagePath, ...m }) => (imagePath ? { ...m, image: urls.get(imagePath) } : m));
+};
+
+interface SolverContext {
+  problems?: { question?: string; latex?: string; answer?: string }[];
+}
+
+// Extra system instructions for "Ask David why", where the student wants the
+// solver's answer to a capture explained rather than a fresh solve.
+const describeSolverContext = (context: SolverContext | undefined) => {
+  const problems = context?.problems ?? [];
+  if (problems.length === 0) return "";
+
+  const lines = problems.map((problem, index) => {
+    const statement = problem.question || problem.latex || "(see image)";
+    const latex = problem.latex ? ` [LaTeX: ${problem.latex}]` : "";
+    return `${index + 1}. Problem: ${statement}${latex} - Solver's answer: ${problem.answer}`;
+  });
+
+  return `
+
+The student is asking about a capture our solver already answered. The solver read and answered it as follows:
+${lines.join("\n")}
+Explain the approach step by step so the student understands how to reach that answer. If you believe the solver's answer is wrong, say so clearly and explain the correct result.`;
 };
 
 serve(async (req) => {
@@ -11,19 +64,24 @@ serve(async (req) => {
   }
 
   try {
-    const { messages } = await req.json();
+    const { messages, context } = await req.json();
     
     const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
     if (!LOVABLE_API_KEY) {
       throw new Error('LOVABLE_API_KEY is not configured');
     }
 
+    const quotaCheck = await consumeQuota(req, 'david-chat');
+    if (!quotaCheck.ok) {
+      return quotaCheck.response;
+    }
+
     console.log('David chat - processing message');
 
-    const systemPrompt = `You are David, a friendly and helpful math tutor. When users send you images of math problems, analyze them carefully and learn from them. You can help solve similar problems and explain approaches. Keep your responses concise. When someone sends an image, acknowledge it and describe what math problem you see. Be supportive and encouraging.`;
+    const systemPrompt = `You are David, a friendly and helpful math tutor. When users send you images of math problems, analyze them carefully and learn from them. You can help solve similar problems and explain approaches. Keep your responses concise. When someone sends an image, acknowledge it and describe what math problem you see. Be supportive and encouraging. Write all math as LaTeX wrapped in $...$ for inline math or $$...$$ for display math on its own line - never \\( \\) or \\[ \\].`;
 
     // Transform messages to include images properly for the AI
-    const formattedMessages = messages.map((m: { role: string; content: string; image?: string }) => {
+    const formattedMessages = (await signStoredImages(req, messages)).map((m: IncomingMessage) => {
       if (m.image) {
         // For messages with images, use the multimodal format
         return {
@@ -57,9 +115,10 @@ serve(async (req) => {
       body: JSON.stringify({
         model: "google/gemini-2.5-flash",
         messages: [
-          { role: "system", content: systemPrompt },
+          { role: "system", content: systemPrompt + describeSolverContext(context) },
           ...formattedMessages
         ],
+        stream: true,
       }),
     });
 
@@ -83,13 +142,12 @@ serve(async (req) => {
       throw new Error(`AI gateway error: ${response.status}`);
     }
 
-    const data = await response.json();
-    const responseText = data.choices?.[0]?.message?.content;
-
-    console.log('David chat - response generated');
+    console.log('David chat - streaming response');
 
-    return new Response(JSON.stringify({ response: responseText }), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    // Pass the gateway's OpenAI-style SSE stream straight through; the client
+    // reads `choices[0].delta.content` from each `data:` line.
+    return new Response(response.body, {
+      headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
     });
   } catch (error: unknown) {
     console.error("Error in david-chat function:", error);
@@ -0,0 +1,48 @@
+-- Solve history: one row per analyzed capture, owned by the signed-in user.
+create table public.solves (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  image_path text not null,
+  mode text not null default 'answer',
+  result jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index solves_user_id_created_at_idx on public.solves (user_id, created_at desc);
+
+alter table public.solves enable row level security;
+
+create policy "Users can view their own solves"
+  on public.solves for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own solves"
+  on public.solves for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own solves"
+  on public.solves for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Captured images live in a private bucket under a folder named after the user id.
+insert into storage.buckets (id, name, public)
+values ('captures', 'captures', false)
+on conflict (id) do nothing;
+
+create policy "Users can view their own captures"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'captures' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can upload their own captures"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'captures' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete their own captures"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'captures' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,116 @@
+-- Daily per-user quotas for the AI edge functions.
+
+-- Default daily limit for each function.
+create table public.function_quotas (
+  function_name text primary key,
+  daily_limit integer not null check (daily_limit >= 0)
+);
+
+insert into public.function_quotas (function_name, daily_limit) values
+  ('analyze-math', 50),
+  ('david-chat', 100);
+
+-- Optional per-user overrides of the default limit.
+create table public.user_quotas (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  function_name text not null references public.function_quotas (function_name) on delete cascade,
+  daily_limit integer not null check (daily_limit >= 0),
+  primary key (user_id, function_name)
+);
+
+create table public.daily_usage (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  function_name text not null references public.function_quotas (function_name) on delete cascade,
+  usage_date date not null default current_date,
+  request_count integer not null default 0,
+  primary key (user_id, function_name, usage_date)
+);
+
+alter table public.function_quotas enable row level security;
+alter table public.user_quotas enable row level security;
+alter table public.daily_usage enable row level security;
+
+create policy "Authenticated users can view default quotas"
+  on public.function_quotas for select
+  to authenticated
+  using (true);
+
+create policy "Users can view their own quota overrides"
+  on public.user_quotas for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can view their own usage"
+  on public.daily_usage for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+-- Usage is only ever written through consume_quota, which checks and
+-- increments in a single statement so concurrent requests cannot overshoot.
+create or replace function public.consume_quota(_function_name text)
+returns table (allowed boolean, remaining integer, daily_limit integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _user_id uuid := auth.uid();
+  _limit integer;
+  _count integer;
+begin
+  if _user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select coalesce(uq.daily_limit, fq.daily_limit) into _limit
+  from public.function_quotas fq
+  left join public.user_quotas uq
+    on uq.function_name = fq.function_name and uq.user_id = _user_id
+  where fq.function_name = _function_name;
+
+  if _limit is null then
+    raise exception 'Unknown function %', _function_name;
+  end if;
+
+  if _limit = 0 then
+    return query select false, 0, _limit;
+    return;
+  end if;
+
+  insert into public.daily_usage as du (user_id, function_name, usage_date, request_count)
+  values (_user_id, _function_name, current_date, 1)
+  on conflict (user_id, function_name, usage_date)
+  do update set request_count = du.request_count + 1
+  where du.request_count < _limit
+  returning du.request_count into _count;
+
+  if _count is null then
+    return query select false, 0, _limit;
+  else
+    return query select true, _limit - _count, _limit;
+  end if;
+end;
+$$;
+
+create or replace function public.get_quota_status()
+returns table (function_name text, daily_limit integer, used integer, remaining integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    fq.function_name,
+    coalesce(uq.daily_limit, fq.daily_limit) as daily_limit,
+    coalesce(du.request_count, 0) as used,
+    greatest(coalesce(uq.daily_limit, fq.daily_limit) - coalesce(du.request_count, 0), 0) as remaining
+  from public.function_quotas fq
+  left join public.user_quotas uq
+    on uq.function_name = fq.function_name and uq.user_id = auth.uid()
+  left join public.daily_usage du
+    on du.function_name = fq.function_name and du.user_id = auth.uid() and du.usage_date = current_date
+  order by fq.function_name;
+$$;
+
+revoke execute on function public.consume_quota(text) from anon;
+revoke execute on function public.get_quota_status() from anon;
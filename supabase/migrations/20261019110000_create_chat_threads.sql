@@ -0,0 +1,75 @@
+-- Saved David chat conversations.
+create table public.chat_threads (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  title text not null default 'New conversation',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index chat_threads_user_id_updated_at_idx on public.chat_threads (user_id, updated_at desc);
+
+create table public.chat_messages (
+  id uuid primary key default gen_random_uuid(),
+  thread_id uuid not null references public.chat_threads (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  image_path text,
+  created_at timestamptz not null default now()
+);
+
+create index chat_messages_thread_id_created_at_idx on public.chat_messages (thread_id, created_at);
+
+alter table public.chat_threads enable row level security;
+alter table public.chat_messages enable row level security;
+
+create policy "Users can view their own threads"
+  on public.chat_threads for select to authenticated using (auth.uid() = user_id);
+create policy "Users can create their own threads"
+  on public.chat_threads for insert to authenticated with check (auth.uid() = user_id);
+create policy "Users can update their own threads"
+  on public.chat_threads for update to authenticated using (auth.uid() = user_id);
+create policy "Users can delete their own threads"
+  on public.chat_threads for delete to authenticated using (auth.uid() = user_id);
+
+create policy "Users can view their own messages"
+  on public.chat_messages for select to authenticated using (auth.uid() = user_id);
+create policy "Users can add messages to their own threads"
+  on public.chat_messages for insert to authenticated
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.chat_threads t where t.id = thread_id and t.user_id = auth.uid())
+  );
+
+-- Keep the most recently used thread at the top of the switcher.
+create or replace function public.touch_chat_thread()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.chat_threads set updated_at = now() where id = new.thread_id;
+  return new;
+end;
+$$;
+
+create trigger chat_messages_touch_thread
+  after insert on public.chat_messages
+  for each row execute function public.touch_chat_thread();
+
+-- Images attached to chat messages, stored under a folder named after the user id.
+insert into storage.buckets (id, name, public)
+values ('chat-images', 'chat-images', false)
+on conflict (id) do nothing;
+
+create policy "Users can view their own chat images"
+  on storage.objects for select to authenticated
+  using (bucket_id = 'chat-images' and (storage.foldername(name))[1] = auth.uid()::text);
+create policy "Users can upload their own chat images"
+  on storage.objects for insert to authenticated
+  with check (bucket_id = 'chat-images' and (storage.foldername(name))[1] = auth.uid()::text);
+create policy "Users can delete their own chat images"
+  on storage.objects for delete to authenticated
+  using (bucket_id = 'chat-images' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,31 @@
+-- Worksheets group the per-page solves of a multi-page PDF upload.
+create table public.worksheets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  title text not null,
+  page_count integer not null check (page_count > 0),
+  created_at timestamptz not null default now()
+);
+
+alter table public.worksheets enable row level security;
+
+create policy "Users can view their own worksheets"
+  on public.worksheets for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users can create their own worksheets"
+  on public.worksheets for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own worksheets"
+  on public.worksheets for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+alter table public.solves
+  add column worksheet_id uuid references public.worksheets (id) on delete cascade,
+  add column page_number integer check (page_number > 0);
+
+create index solves_worksheet_id_idx on public.solves (worksheet_id, page_number);
@@ -0,0 +1,6 @@
+-- Typed problems have no capture, so a solve keeps either an image or the
+-- LaTeX the student entered.
+alter table public.solves
+  alter column image_path drop not null,
+  add column problem_text text,
+  add constraint solves_image_or_text check (image_path is not null or problem_text is not null);
@@ -0,0 +1,9 @@
+-- Captures are transcribed before solving so the student can correct a
+-- misreading. problem_text keeps the LaTeX that was solved, and transcription
+-- what the model first read, so the two can be compared later.
+alter table public.solves
+  add column transcription text;
+
+-- Reading a capture spends its own quota instead of a solve.
+insert into public.function_quotas (function_name, daily_limit) values
+  ('analyze-math:transcribe', 100);
@@ -0,0 +1,4 @@
+-- Accuracy mode asks several models for each solve, so it gets a smaller
+-- daily limit of its own instead of costing a single solve.
+insert into public.function_quotas (function_name, daily_limit) values
+  ('analyze-math:accuracy', 15);
@@ -0,0 +1,19 @@
+-- Gives back a unit spent by consume_quota when the request then failed
+-- upstream (gateway error, timeout, unreadable model output). Only the edge
+-- functions may call it, with the service role; students can't refund themselves.
+create or replace function public.refund_quota(_user_id uuid, _function_name text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.daily_usage
+  set request_count = request_count - 1
+  where user_id = _user_id
+    and function_name = _function_name
+    and usage_date = current_date
+    and request_count > 0;
+$$;
+
+revoke execute on function public.refund_quota(uuid, text) from public, anon, authenticated;
+grant execute on function public.refund_quota(uuid, text) to service_role;